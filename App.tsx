@@ -3,291 +3,505 @@ import {
   SafeAreaView,
   View,
   Text,
-  TextInput,
   Pressable,
   ScrollView,
   Alert,
-  useColorScheme,
   Modal,
   StatusBar,
   Linking,
+  Share,
+  AccessibilityInfo,
+  Platform,
 } from "react-native";
-/* ======================= Helpers: digits, grouping, i18n ======================= */
-const digitsFa = "۰۱۲۳۴۵۶۷۸۹";
-const digitsAr = "٠١٢٣٤٥٦٧٨٩";
-const normalizeDigitsToAscii = (s: string) =>
-  s
-    .split("")
-    .map((ch) => {
-      const fa = digitsFa.indexOf(ch);
-      if (fa !== -1) return String(fa);
-      const ar = digitsAr.indexOf(ch);
-      if (ar !== -1) return String(ar);
-      return ch;
-    })
-    .join("");
-
-// keep only digits (ASCII)
-const onlyDigits = (s: string) =>
-  (normalizeDigitsToAscii(s).match(/[0-9]+/g)?.join("") ?? "");
-
-// group a plain digit-string (no sign, no separators) every 3 from end
-const groupPlain = (plain: string, sep: string) => {
-  if (!plain) return "0";
-  let out = "";
-  let cnt = 0;
-  for (let i = plain.length - 1; i >= 0; i--) {
-    out = plain[i] + out;
-    cnt++;
-    if (i > 0 && cnt % 3 === 0) out = sep + out;
-  }
-  return out;
-};
-
-// map ASCII 0-9 to fa digits if needed
-const mapDigitsForLang = (s: string, lang: "fa" | "en") =>
-  lang === "fa"
-    ? s.replace(/[0-9]/g, (d) => digitsFa[Number(d)])
-    : s;
-
-// format BigInt with grouping and locale digits
-const formatBigInt = (n: bigint, lang: "fa" | "en") => {
-  const sign = n < 0n ? "-" : "";
-  const abs = n < 0n ? -n : n;
-  const plain = abs.toString(); // ASCII digits
-  const sep = lang === "fa" ? "٬" : ",";
-  const grouped = groupPlain(plain, sep);
-  const withSign = sign + grouped;
-  return mapDigitsForLang(withSign, lang);
-};
-
-// format small number (0..999) with locale digits (used for qeran)
-const formatSmall = (n: number, lang: "fa" | "en") =>
-  mapDigitsForLang(n.toString(), lang);
-
-/* ======================= Conversions with BigInt ======================= */
-const OLD_PER_NEW = 10000n; // 10,000 old rial = 1 new rial
-const OLD_PER_QERAN = 100n; // 100 old rial = 1 qeran
-
-const parseOldRialInputToBig = (val: string): bigint => {
-  const raw = onlyDigits(val);
-  return raw ? BigInt(raw) : 0n;
-};
-
-const parseNewRialInputToBig = (val: string): bigint => {
-  const raw = onlyDigits(val);
-  return raw ? BigInt(raw) : 0n;
-};
-
-const parseQeranInputToNumber = (val: string): number => {
-  const raw = onlyDigits(val);
-  const n = raw ? Number(raw) : 0;
-  return Math.max(0, Math.min(99, Math.floor(n)));
-};
-
-const oldToNewQeran = (oldRial: bigint) => {
-  const newRial = oldRial / OLD_PER_NEW; // bigint
-  const rem = oldRial % OLD_PER_NEW;
-  const qeran = Number(rem / OLD_PER_QERAN); // 0..99 safe as number
-  return { newRial, qeran };
-};
-
-const newQeranToOld = (newRial: bigint, qeran: number) =>
-  newRial * OLD_PER_NEW + BigInt(qeran) * OLD_PER_QERAN;
-
-/* ======================= Persian number to words (BigInt) ======================= */
-// convert a 0..999 numeric triplet to Persian words
-const ones = ["", "یک", "دو", "سه", "چهار", "پنج", "شش", "هفت", "هشت", "نه"];
-const tens = ["", "ده", "بیست", "سی", "چهل", "پنجاه", "شصت", "هفتاد", "هشتاد", "نود"];
-const hundreds = ["", "صد", "دویست", "سیصد", "چهارصد", "پانصد", "ششصد", "هفتصد", "هشتصد", "نهصد"];
-const teens: Record<number, string> = {
-  11: "یازده",
-  12: "دوازده",
-  13: "سیزده",
-  14: "چهارده",
-  15: "پانزده",
-  16: "شانزده",
-  17: "هفده",
-  18: "هجده",
-  19: "نوزده",
-};
-const scales = ["", "هزار", "میلیون", "میلیارد", "تریلیون", "کوادریلیون", "کوینتیلیون"];
-
-const tripletToFaWords = (n: number) => {
-  const parts: string[] = [];
-  if (n >= 100) {
-    parts.push(hundreds[Math.floor(n / 100)]);
-    n %= 100;
-  }
-  if (n === 0) return parts.join(" و ");
-  if (n > 10 && n < 20) {
-    parts.push(teens[n]);
-    return parts.join(" و ");
-  }
-  if (n >= 10) {
-    parts.push(tens[Math.floor(n / 10)]);
-    n %= 10;
-  }
-  if (n > 0) parts.push(ones[n]);
-  return parts.filter(Boolean).join(" و ");
-};
-
-// BigInt → Persian words (arbitrary size). 0 → "صفر"
-const bigIntToPersianWords = (num: bigint): string => {
-  if (num === 0n) return "صفر";
-  const neg = num < 0n;
-  let n = neg ? -num : num;
-  const parts: string[] = [];
-  let scaleIdx = 0;
-  while (n > 0n) {
-    const chunk = Number(n % 1000n); // safe: < 1000
-    if (chunk) {
-      const words = tripletToFaWords(chunk);
-      const scale = scales[scaleIdx] || "";
-      parts.unshift(scale ? `${words} ${scale}` : words);
-    }
-    n = n / 1000n;
-    scaleIdx++;
-  }
-  const out = parts.join(" و ");
-  return neg ? `منفی ${out}` : out;
-};
+import * as Clipboard from "expo-clipboard";
+import {
+  onlyDigits,
+  mapDigits,
+  parseAmountInUnit,
+  parseQeranInputToNumber,
+  oldToUnitDecimal,
+  findAmounts,
+  parseConvertLink,
+  isPlainDigits,
+  breakdownOld,
+  isOldUnit,
+  OLD_PER_QERAN,
+  ROUNDING_MODES,
+  UNITS,
+  chequeWording,
+  resultInWords,
+  formatSummary,
+  SUMMARY_TEMPLATES,
+  DIGIT_SCRIPTS,
+  GROUP_SEPARATORS,
+  GROUP_SIZES,
+  type AmountParseResult,
+  type Unit,
+  type RoundingMode,
+  type SummaryTemplate,
+  type AmountCandidate,
+  type CurrencyRate,
+  type Invoice,
+  type NumberFormat,
+} from "./src/engine";
+import { DEFAULT_SESSION, loadSession, saveSession } from "./src/storage/session";
+import {
+  loadHistory,
+  saveHistory,
+  addHistoryEntry,
+  updateHistoryEntry,
+  removeHistoryEntry,
+  type HistoryEntry,
+} from "./src/storage/history";
+import { loadRates, saveRates } from "./src/storage/rates";
+import { loadInvoices, saveInvoices } from "./src/storage/invoices";
+import HistoryModal from "./src/components/HistoryModal";
+import BatchModal from "./src/components/BatchModal";
+import AmountInput from "./src/components/AmountInput";
+import Chip from "./src/components/Chip";
+import ExtractModal from "./src/components/ExtractModal";
+import CashModal from "./src/components/CashModal";
+import SplitModal from "./src/components/SplitModal";
+import CurrencyModal from "./src/components/CurrencyModal";
+import InvoiceModal from "./src/components/InvoiceModal";
+import TableModal from "./src/components/TableModal";
+import { makeI18n, translate, LOCALES, LOCALE_CODES, type Locale } from "./src/i18n";
+import {
+  useTheme,
+  ACCENTS,
+  ACCENT_NAMES,
+  THEME_SETTINGS,
+  type AccentName,
+  type ThemeSetting,
+} from "./src/theme";
 
 /* ======================= Component ======================= */
 export default function App() {
   // language
-  const [lang, setLang] = useState<"fa" | "en">("fa");
-
-  // theme
-  const systemTheme = useColorScheme();
-  const [theme, setTheme] = useState<"light" | "dark" | "auto">("auto");
-  // Auto-by-time: dark between 18:00 and 06:00 local time
-  const hour = new Date().getHours();
-  const autoDark = hour >= 18 || hour < 6;
-  const resolvedTheme = theme === "auto" ? (autoDark ? "dark" : "light") : theme;
-  const isDark = resolvedTheme === "dark";
-
-  const C = {
-    bg: isDark ? "#0f172a" : "#f6f7fb",
-    card: isDark ? "#172033" : "#ffffff",
-    text: isDark ? "#ffffff" : "#0f172a",
-    sub: isDark ? "#b5c0d0" : "#475569",
-    border: isDark ? "#2a3550" : "#d1d5db",
-    ok: "#16a34a",         // New Rial (green)
-    warn: "#1e3a8a",       // kept for other uses
-    old: "#f59e0b",        // Old Rial (amber)
-    qeran: isDark ? "#4ade80" : "#22c55e", // Qeran: visibly green in both themes (lighter in dark, mid-green in light)
-    primary: "#0ea5e9",
-  };
+  const [lang, setLang] = useState<Locale>(DEFAULT_SESSION.lang);
 
-  const t = (k: string) => {
-    const fa: Record<string, string> = {
-      title: "تبدیل ریال قدیم به ریال جدید",
-      mode_old_to_new: "ریال قدیم → ریال جدید/قِران",
-      mode_new_to_old: "ریال جدید/قِران → ریال قدیم",
-      old_rial: "ریال قدیم",
-      new_rial: "ریال جدید",
-      qeran: "قِران",
-      placeholder_old: "مثلاً 550,000",
-      placeholder_new: "مثلاً 55",
-      placeholder_qeran: "مثلاً 40",
-      swap: "⇄ برعکس",
-      result_new: "ریال جدید",
-      result_old: "ریال قدیم",
-      letters_new: "ریال جدید به حروف",
-      letters_old: "ریال قدیم به حروف",
-      approx_toman: "معادل تقریبی: _ تومان قدیم",
-      ad_title: "محل تبلیغ شما",
-      settings: "تنظیمات",
-      theme: "تم",
-      auto: "خودکار",
-      light: "روز",
-      dark: "شب",
-      language: "زبان",
-      contact: "ارتباط با ما",
-      privacy_header: "توضیحات حریم‌خصوصی",
-      privacy_body:
-        "این اپ آفلاین است، هیچ داده‌ای جمع‌آوری نمی‌کند، به اینترنت نیاز ندارد و هیچ مجوز خاصی درخواست نمی‌کند.",
-      email_label: "ایمیل",
-      close: "بستن",
-    };
-    const en: Record<string, string> = {
-      title: "Old Rial → New Rial",
-      mode_old_to_new: "Old Rial → New Rial/Qeran",
-      mode_new_to_old: "New Rial/Qeran → Old Rial",
-      old_rial: "Old Rial",
-      new_rial: "New Rial",
-      qeran: "Qeran",
-      placeholder_old: "e.g. 550,000",
-      placeholder_new: "e.g. 55",
-      placeholder_qeran: "e.g. 40",
-      swap: "⇄ Swap",
-      result_new: "New Rial",
-      result_old: "Old Rial",
-      letters_new: "New Rial (in words)",
-      letters_old: "Old Rial (in words)",
-      approx_toman: "Approximate: _ old Tomans",
-      ad_title: "Your Ad Here",
-      settings: "Settings",
-      theme: "Theme",
-      auto: "Auto",
-      light: "Light",
-      dark: "Dark",
-      language: "Language",
-      contact: "Contact Us",
-      privacy_header: "Privacy Notes",
-      privacy_body:
-        "This app works offline, collects no data, requires no network or special permissions.",
-      email_label: "Email",
-      close: "Close",
-    };
-    return (lang === "fa" ? fa : en)[k] || k;
-  };
+  // theme: "auto" follows the OS, "schedule" flips at 18:00 / 06:00
+  const [theme, setTheme] = useState<ThemeSetting>(DEFAULT_SESSION.theme);
+  const [accent, setAccent] = useState<AccentName>(DEFAULT_SESSION.accent);
+  const { C, scheme, isDark } = useTheme(theme, accent);
 
-  // direction & inputs (keep as formatted strings)
-  const [reverse, setReverse] = useState(false);
+
+  // input unit & inputs (keep as formatted strings)
+  const [unit, setUnit] = useState<Unit>(DEFAULT_SESSION.unit);
   const [oldInput, setOldInput] = useState("");
   const [newInput, setNewInput] = useState("");
   const [qeranInput, setQeranInput] = useState("");
+  const [tomanOldInput, setTomanOldInput] = useState("");
+  const [tomanNewInput, setTomanNewInput] = useState("");
+  // decimal mode: "55.40" in the new-rial field instead of a separate qeran field
+  const [qeranDecimal, setQeranDecimal] = useState(DEFAULT_SESSION.qeranDecimal);
+  // digits, separator and grouping; whatever isn't set follows the language
+  const [numberFormat, setNumberFormat] = useState<Partial<NumberFormat>>(
+    DEFAULT_SESSION.numberFormat
+  );
 
-  // keep grouped while typing, using BigInt-safe grouping
-  const onChangeOld = (txt: string) => {
-    const raw = onlyDigits(txt);
-    const grouped = groupPlain(raw || "0", lang === "fa" ? "٬" : ",");
-    setOldInput(mapDigitsForLang(grouped, lang));
-  };
-  const onChangeNew = (txt: string) => {
-    const raw = onlyDigits(txt);
-    const grouped = groupPlain(raw || "0", lang === "fa" ? "٬" : ",");
-    setNewInput(mapDigitsForLang(grouped, lang));
-  };
-  const onChangeQeran = (txt: string) => {
-    const rawDigits = onlyDigits(txt).slice(0, 2);
-    const grouped = groupPlain(rawDigits || "0", lang === "fa" ? "٬" : ",");
-    setQeranInput(mapDigitsForLang(grouped, lang));
+  const i18n = useMemo(
+    () => makeI18n(lang, { number: numberFormat, qeranDecimal }),
+    [lang, numberFormat, qeranDecimal]
+  );
+  const { t, fmt, fmtSmall, words, say } = i18n;
+  // old rial and new rial/qeran fields side by side; the one edited last is the source
+  const [linked, setLinked] = useState(DEFAULT_SESSION.linked);
+  // how the part below one qeran is rounded
+  const [rounding, setRounding] = useState<RoundingMode>(DEFAULT_SESSION.rounding);
+  const [shareTemplate, setShareTemplate] = useState<SummaryTemplate>(DEFAULT_SESSION.shareTemplate);
+  // notes & coins for the cash breakdown, in qerans
+  const [denominations, setDenominations] = useState<bigint[]>(
+    DEFAULT_SESSION.denominations.map(BigInt)
+  );
+
+  /* ======================= Persistence ======================= */
+  // restore settings & last inputs once, before the first real render
+  const [ready, setReady] = useState(false);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [rates, setRates] = useState<CurrencyRate[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  useEffect(() => {
+    Promise.all([loadSession(), loadHistory(), loadRates(), loadInvoices()]).then(([s, h, r, inv]) => {
+      setHistory(h);
+      setRates(r);
+      setInvoices(inv);
+      setLang(s.lang);
+      setTheme(s.theme);
+      setAccent(s.accent);
+      setUnit(s.unit);
+      setQeranDecimal(s.qeranDecimal);
+      setNumberFormat(s.numberFormat);
+      setLinked(s.linked);
+      setRounding(s.rounding);
+      setShareTemplate(s.shareTemplate);
+      setDenominations(s.denominations.map(BigInt));
+      setOldInput(s.inputs.oldRial);
+      setNewInput(s.inputs.newRial);
+      setQeranInput(s.inputs.qeran);
+      setTomanOldInput(s.inputs.oldToman);
+      setTomanNewInput(s.inputs.newToman);
+      setReady(true);
+    });
+  }, []);
+
+  // save shortly after the last change, not on every keystroke
+  useEffect(() => {
+    if (!ready) return;
+    const id = setTimeout(() => {
+      saveSession({
+        lang,
+        theme,
+        accent,
+        unit,
+        qeranDecimal,
+        numberFormat,
+        linked,
+        rounding,
+        shareTemplate,
+        denominations: denominations.map(String),
+        inputs: {
+          oldRial: oldInput,
+          newRial: newInput,
+          qeran: qeranInput,
+          oldToman: tomanOldInput,
+          newToman: tomanNewInput,
+        },
+      });
+    }, 400);
+    return () => clearTimeout(id);
+  }, [
+    ready,
+    lang,
+    theme,
+    accent,
+    unit,
+    qeranDecimal,
+    numberFormat,
+    linked,
+    rounding,
+    shareTemplate,
+    denominations,
+    oldInput,
+    newInput,
+    qeranInput,
+    tomanOldInput,
+    tomanNewInput,
+  ]);
+
+  // swap jumps to the same kind of unit on the other side of redenomination
+  const counterpart: Record<Unit, Unit> = {
+    oldRial: "newRial",
+    newRial: "oldRial",
+    oldToman: "newToman",
+    newToman: "oldToman",
   };
 
   /* ======================= Compute results ======================= */
   const result = useMemo(() => {
-    if (!reverse) {
-      // old -> new
-      const oldRial = parseOldRialInputToBig(oldInput);
-      const { newRial, qeran } = oldToNewQeran(oldRial);
-      const tomanOld = oldRial / 10n; // ✅ based on old rial
-      return { mode: "oldToNew" as const, oldRial, newRial, qeran, tomanOld };
+    const text = {
+      oldRial: oldInput,
+      oldToman: tomanOldInput,
+      newRial: newInput,
+      newToman: tomanNewInput,
+    }[unit];
+    // everything goes through old rial, the exact base unit
+    const parsed = parseAmountInUnit(text, unit);
+    const qeran = unit === "newRial" && !qeranDecimal ? parseQeranInputToNumber(qeranInput) : 0;
+    const oldRial = (parsed.ok ? parsed.value : 0n) + BigInt(qeran) * OLD_PER_QERAN;
+    const mode = isOldUnit(unit) ? ("oldToNew" as const) : ("newToOld" as const);
+    // show the exact parsed value when the field isn't plain digits
+    const preview = parsed.ok && !isPlainDigits(text) ? parsed.value : null;
+    const empty = !text.trim() && !(unit === "newRial" && !qeranDecimal && qeranInput.trim());
+    return { mode, text, parsed, preview, empty, ...breakdownOld(oldRial, rounding) };
+  }, [
+    unit,
+    oldInput,
+    newInput,
+    qeranInput,
+    tomanOldInput,
+    tomanNewInput,
+    qeranDecimal,
+    rounding,
+    lang,
+  ]);
+
+  const parseErrorText = (p: AmountParseResult) =>
+    p.ok ? "" : t(`err_${p.code}`, { text: p.fragment });
+
+  // cheque wording is written in the result's units: rial (+ qeran) or toman
+  const [chequeToman, setChequeToman] = useState(false);
+  const chequeUnit: Unit =
+    result.mode === "oldToNew"
+      ? chequeToman
+        ? "newToman"
+        : "newRial"
+      : chequeToman
+        ? "oldToman"
+        : "oldRial";
+
+  /* ======================= Screen reader ======================= */
+  // grouped digits are read one by one, so amounts are announced in words
+  const spokenField = (text: string) =>
+    !text.trim() ? t("a11y_empty") : isPlainDigits(text) ? say(BigInt(onlyDigits(text) || "0")) : text;
+  const spokenResult =
+    result.mode === "oldToNew"
+      ? `${say(result.newRial)} ${t("result_new")} ${t("and")} ${say(result.qeran)} ${t("qeran")}`
+      : `${say(result.oldRial)} ${t("result_old")}`;
+
+  // announce once typing has paused, not on every keystroke
+  const [announced, setAnnounced] = useState(spokenResult);
+  useEffect(() => {
+    if (spokenResult === announced) return;
+    const id = setTimeout(() => {
+      setAnnounced(spokenResult);
+      // Android reads the live region itself; iOS has no live regions
+      if (Platform.OS === "ios") AccessibilityInfo.announceForAccessibility(spokenResult);
+    }, 800);
+    return () => clearTimeout(id);
+  }, [spokenResult]);
+
+  /* ======================= Copy / share ======================= */
+  // plain text only: the clipboard and the system share sheet need no permissions
+  const [copied, setCopied] = useState(false);
+  const summaryText = () =>
+    formatSummary(
+      result,
+      result.mode,
+      words,
+      t,
+      shareTemplate,
+      { number: i18n.number, qeranDecimal },
+      (lang) => (key, params) => translate(lang, key, params)
+    );
+  const copySummary = async () => {
+    await Clipboard.setStringAsync(summaryText());
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+  const shareSummary = () => Share.share({ message: summaryText() });
+
+  /* ======================= Carrying amounts between fields ======================= */
+  // new rial + qeran as field text, "55.40" in decimal mode
+  const newSideText = (b: { newRial: bigint; qeran: number }) => {
+    const grouped = i18n.group(b.newRial.toString());
+    const qq = mapDigits(String(b.qeran).padStart(2, "0"), i18n.number.digits);
+    return {
+      newRial: qeranDecimal ? `${grouped}${i18n.point}${qq}` : grouped,
+      qeran: fmtSmall(b.qeran),
+    };
+  };
+
+  // an amount written exactly in a toman or old-rial field ("5.5" new toman)
+  const unitText = (oldRial: bigint, u: Unit) => {
+    const { int, frac } = oldToUnitDecimal(oldRial, u);
+    return i18n.group(int.toString()) + (frac ? i18n.point + mapDigits(frac, i18n.number.digits) : "");
+  };
+
+  const setters: Record<Exclude<Unit, "newRial">, (v: string) => void> = {
+    oldRial: setOldInput,
+    oldToman: setTomanOldInput,
+    newToman: setTomanNewInput,
+  };
+
+  // swap carries the current amount over; new rial follows the rounding mode
+  const swap = () => {
+    const to = counterpart[unit];
+    if (result.parsed.ok && !result.empty) {
+      if (to === "newRial") {
+        const side = newSideText(result);
+        setNewInput(side.newRial);
+        setQeranInput(side.qeran);
+      } else {
+        setters[to](unitText(result.oldRial, to));
+      }
+    }
+    setUnit(to);
+  };
+
+  // linked mode: the source side shows what was typed, the other side is derived from it.
+  // old → new may round below one qeran, so the typed old rial is never rewritten from new.
+  const derived = result.parsed.ok && !result.empty;
+  // the qeran as the two digits after the point, for decimal display
+  const qeranDigits = String(result.qeran).padStart(2, "0");
+  const derivedNew = newSideText(result);
+  const linkedOld = unit === "oldRial" ? oldInput : derived ? unitText(result.oldRial, "oldRial") : "";
+  const linkedNew = unit === "newRial" ? newInput : derived ? derivedNew.newRial : "";
+  const linkedQeran = unit === "newRial" ? qeranInput : derived ? derivedNew.qeran : "";
+  const linkedRounded = unit !== "newRial" && derived && !result.exact;
+
+  const editLinkedOld = (text: string) => {
+    setOldInput(text);
+    setUnit("oldRial");
+  };
+  // editing one new-side field adopts the derived value of the other
+  const editLinkedNew = (text: string) => {
+    if (unit !== "newRial") setQeranInput(linkedQeran);
+    setNewInput(text);
+    setUnit("newRial");
+  };
+  const editLinkedQeran = (text: string) => {
+    if (unit !== "newRial") setNewInput(linkedNew);
+    setQeranInput(text);
+    setUnit("newRial");
+  };
+
+  const toggleLinked = () => {
+    // linked mode has no toman fields: bring a toman amount over as old rial
+    if (!linked && unit !== "oldRial" && unit !== "newRial") {
+      if (derived) setOldInput(unitText(result.oldRial, "oldRial"));
+      setUnit("oldRial");
+    }
+    setLinked(!linked);
+  };
+
+  /* ======================= Amounts in pasted text ======================= */
+  const [showExtract, setShowExtract] = useState(false);
+  const [extractText, setExtractText] = useState("");
+  // a field that doesn't parse may be a pasted message with amounts in it
+  const found = useMemo(
+    () => (result.parsed.ok ? [] : findAmounts(result.text)),
+    [result.parsed.ok, result.text]
+  );
+  const openExtract = (text: string) => {
+    setExtractText(text);
+    setShowExtract(true);
+  };
+  // toman amounts go to the old-toman field, everything else to old rial
+  const pickAmount = (c: AmountCandidate) => {
+    if (c.unit === "toman" && !linked) {
+      setTomanOldInput(unitText(c.oldRial, "oldToman"));
+      setUnit("oldToman");
+    } else {
+      setOldInput(unitText(c.oldRial, "oldRial"));
+      setUnit("oldRial");
+    }
+    setShowExtract(false);
+  };
+
+  /* ======================= Deep links & shared text ======================= */
+  // rialconverter://convert?old=550000, ?new=55&qeran=40&lang=en, or text shared from another app
+  const [pendingLink, setPendingLink] = useState<string | null>(null);
+  useEffect(() => {
+    Linking.getInitialURL().then((url) => url && setPendingLink(url));
+    const sub = Linking.addEventListener("url", ({ url }) => setPendingLink(url));
+    return () => sub.remove();
+  }, []);
+
+  // put an amount into the field for `u`, the way swap carries it over
+  const fillField = (u: Unit, oldRial: bigint) => {
+    if (linked && u === "oldToman") u = "oldRial";
+    if (u !== "newRial") setters[u](unitText(oldRial, u));
+    else if (oldRial % OLD_PER_QERAN === 0n) {
+      const side = newSideText(breakdownOld(oldRial));
+      setNewInput(side.newRial);
+      setQeranInput(side.qeran);
     } else {
-      // new -> old
-      const newRial = parseNewRialInputToBig(newInput);
-      const qeran = parseQeranInputToNumber(qeranInput);
-      const oldRial = newQeranToOld(newRial, qeran);
-      const tomanOld = oldRial / 10n;
-      return { mode: "newToOld" as const, oldRial, newRial, qeran, tomanOld };
+      setNewInput(unitText(oldRial, "newRial"));
+      setQeranInput("");
+    }
+    setUnit(u);
+  };
+
+  // handled only after the saved session is restored, so it doesn't overwrite the link
+  useEffect(() => {
+    if (!ready || !pendingLink) return;
+    const link = parseConvertLink(pendingLink, LOCALE_CODES);
+    if (!link.ok) {
+      setPendingLink(null);
+      Alert.alert(t("link_invalid"), t(`link_${link.code}`, { text: link.fragment }));
+      return;
+    }
+    // switch language first; the fields are filled on the next pass, in its digits
+    if (link.lang && link.lang !== lang) {
+      setLang(link.lang as Locale);
+      return;
     }
-  }, [reverse, oldInput, newInput, qeranInput, lang]);
+    setPendingLink(null);
+    // bring the converter to the front
+    [
+      setShowSettings,
+      setShowHistory,
+      setShowBatch,
+      setShowExtract,
+      setShowCash,
+      setShowSplit,
+      setShowCurrency,
+      setShowInvoice,
+      setShowTable,
+    ].forEach((close) => close(false));
+    if (link.kind === "amount") {
+      fillField(link.unit, link.oldRial);
+      return;
+    }
+    // shared text: an amount on its own fills the current field, a message goes to the picker
+    const parsed = parseAmountInUnit(link.text, unit);
+    if (parsed.ok) fillField(unit, parsed.value);
+    else openExtract(link.text);
+  }, [ready, pendingLink, lang]);
+
+  /* ======================= History ======================= */
+  const [showHistory, setShowHistory] = useState(false);
+
+  // record a conversion once typing has paused
+  useEffect(() => {
+    if (!ready || !result.parsed.ok || result.oldRial === 0n) return;
+    const id = setTimeout(() => {
+      setHistory((h) =>
+        addHistoryEntry(h, {
+          direction: result.mode,
+          unit,
+          oldRial: result.oldRial.toString(),
+          newRial: result.newRial.toString(),
+          qeran: result.qeran,
+          subQeranRem: result.subQeranRem.toString(),
+        })
+      );
+    }, 1500);
+    return () => clearTimeout(id);
+  }, [ready, result]);
+
+  useEffect(() => {
+    if (ready) saveHistory(history);
+  }, [ready, history]);
+
+  useEffect(() => {
+    if (ready) saveRates(rates);
+  }, [ready, rates]);
+
+  // typing into an invoice changes it on every keystroke; write shortly after the last one
+  useEffect(() => {
+    if (!ready) return;
+    const id = setTimeout(() => saveInvoices(invoices), 400);
+    return () => clearTimeout(id);
+  }, [ready, invoices]);
+
+  // load an entry back into the old-rial or new-rial/qeran fields
+  const loadHistoryEntry = (e: HistoryEntry) => {
+    const oldSide = e.direction === "oldToNew" || e.subQeranRem !== "0";
+    if (oldSide) {
+      setUnit("oldRial");
+      setOldInput(i18n.group(e.oldRial));
+    } else {
+      setUnit("newRial");
+      const side = newSideText({ newRial: BigInt(e.newRial), qeran: e.qeran });
+      setNewInput(side.newRial);
+      setQeranInput(side.qeran);
+    }
+    setShowHistory(false);
+  };
 
   /* ======================= UI ======================= */
   const [showSettings, setShowSettings] = useState(false);
+  const [showBatch, setShowBatch] = useState(false);
+  const [showCash, setShowCash] = useState(false);
+  const [showSplit, setShowSplit] = useState(false);
+  const [showCurrency, setShowCurrency] = useState(false);
+  const [showInvoice, setShowInvoice] = useState(false);
+  const [showTable, setShowTable] = useState(false);
   const topPad = 16; // reduced fixed top padding // ~3cm
+  // large display sizes still follow the system font scale, capped so long amounts wrap instead of overflowing
+  const displayScale = 1.6;
 
   const openMail = async () => {
     const mailto = "mailto:dev.yari1985@gmail.com";
@@ -296,11 +510,30 @@ export default function App() {
     else Alert.alert(t("contact"), "dev.yari1985@gmail.com");
   };
 
+  const HeaderButton = ({ icon, label, onPress }: { icon: string; label: string; onPress: () => void }) => (
+    <Pressable
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      style={{
+        backgroundColor: C.card,
+        borderWidth: 1,
+        borderColor: C.border,
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderRadius: 10,
+      }}
+    >
+      <Text style={{ color: C.text, fontSize: 16 }}>{icon}</Text>
+    </Pressable>
+  );
+
   const AdBanner = () => (
     <Pressable
       onPress={() =>
-        Alert.alert(lang === "fa" ? "تماس تبلیغات" : "Ad Contact", "dev.yari1985@gmail.com")
+        Alert.alert(t("ad_contact"), "dev.yari1985@gmail.com")
       }
+      accessibilityRole="button"
       style={{
         backgroundColor: C.card,
         borderRadius: 16,
@@ -315,8 +548,49 @@ export default function App() {
     </Pressable>
   );
 
+  // one settings row for a number-format field; "Language" clears it so the locale decides
+  const formatRow = <K extends keyof NumberFormat>(
+    key: K,
+    label: string,
+    options: { value: NumberFormat[K]; label: string }[]
+  ) => (
+    <View
+      style={{
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        marginVertical: 8,
+      }}
+    >
+      <Text style={{ color: C.text, fontWeight: "600" }}>{label}</Text>
+      <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, flexShrink: 1 }}>
+        {[{ value: undefined, label: t("number_auto") }, ...options].map((o) => (
+          <Chip
+            key={o.label}
+            C={C}
+            active={numberFormat[key] === o.value}
+            label={o.label}
+            onPress={() =>
+              setNumberFormat((f) => {
+                const next = { ...f };
+                if (o.value === undefined) delete next[key];
+                else next[key] = o.value;
+                return next;
+              })
+            }
+          />
+        ))}
+      </View>
+    </View>
+  );
+  const separatorLabel = (sep: string) =>
+    sep === "" ? t("separator_none") : sep === "\u00a0" ? t("separator_space") : sep;
+
+  if (!ready) return null;
+
   return (
-    <SafeAreaView style={{ flex: 1, backgroundColor: C.bg }}>
+    <SafeAreaView style={{ flex: 1, backgroundColor: C.bg, direction: i18n.dir }}>
+      <StatusBar barStyle={isDark ? "light-content" : "dark-content"} />
       <ScrollView
         contentContainerStyle={{
           paddingHorizontal: 20,
@@ -335,22 +609,22 @@ export default function App() {
             marginBottom: 12,
           }}
         >
-          <Text style={{ color: C.text, fontSize: 22, fontWeight: "800" }}>
+          <Text accessibilityRole="header" style={{ color: C.text, fontSize: 22, fontWeight: "800" }}>
             {t("title")}
           </Text>
-          <Pressable
-            onPress={() => setShowSettings(true)}
-            style={{
-              backgroundColor: C.card,
-              borderWidth: 1,
-              borderColor: C.border,
-              paddingHorizontal: 10,
-              paddingVertical: 6,
-              borderRadius: 10,
-            }}
+          <View
+            style={{ flexDirection: "row", flexWrap: "wrap", flexShrink: 1, justifyContent: "flex-end", gap: 6 }}
           >
-            <Text style={{ color: C.text, fontSize: 16 }}>⚙️</Text>
-          </Pressable>
+            <HeaderButton icon="📩" label={t("extract")} onPress={() => openExtract("")} />
+            <HeaderButton icon="💵" label={t("cash")} onPress={() => setShowCash(true)} />
+            <HeaderButton icon="➗" label={t("split")} onPress={() => setShowSplit(true)} />
+            <HeaderButton icon="💱" label={t("currency")} onPress={() => setShowCurrency(true)} />
+            <HeaderButton icon="🧾" label={t("invoice")} onPress={() => setShowInvoice(true)} />
+            <HeaderButton icon="🖨️" label={t("table")} onPress={() => setShowTable(true)} />
+            <HeaderButton icon="📋" label={t("batch")} onPress={() => setShowBatch(true)} />
+            <HeaderButton icon="🕘" label={t("history")} onPress={() => setShowHistory(true)} />
+            <HeaderButton icon="⚙️" label={t("settings")} onPress={() => setShowSettings(true)} />
+          </View>
         </View>
 
         {/* Mode + swap */}
@@ -370,87 +644,191 @@ export default function App() {
               alignItems: "center",
             }}
           >
-            <Text style={{ color: C.text, fontWeight: "600" }}>
-              {reverse ? t("mode_new_to_old") : t("mode_old_to_new")}
+            <Text style={{ color: C.text, fontWeight: "600", flexShrink: 1 }}>
+              {linked ? t("linked_title") : t(`mode_${unit}`)}
             </Text>
-            <Pressable
-              onPress={() => setReverse((r) => !r)}
-              style={{
-                backgroundColor: C.primary,
-                borderRadius: 20,
-                paddingHorizontal: 10,
-                paddingVertical: 4,
-              }}
-            >
-              <Text style={{ color: "#fff" }}>{t("swap")}</Text>
-            </Pressable>
+            <View style={{ flexDirection: "row", gap: 6 }}>
+              <Pressable
+                onPress={toggleLinked}
+                accessibilityRole="button"
+                accessibilityState={{ selected: linked }}
+                style={{
+                  backgroundColor: linked ? C.primary : C.card,
+                  borderWidth: 1,
+                  borderColor: C.border,
+                  borderRadius: 20,
+                  paddingHorizontal: 10,
+                  paddingVertical: 4,
+                }}
+              >
+                <Text style={{ color: linked ? C.onPrimary : C.text }}>⇆ {t("linked")}</Text>
+              </Pressable>
+              {!linked && (
+                <Pressable
+                  onPress={swap}
+                  accessibilityRole="button"
+                  accessibilityLabel={t("a11y_swap")}
+                  style={{
+                    backgroundColor: C.primary,
+                    borderRadius: 20,
+                    paddingHorizontal: 10,
+                    paddingVertical: 4,
+                  }}
+                >
+                  <Text style={{ color: C.onPrimary }}>{t("swap")}</Text>
+                </Pressable>
+              )}
+            </View>
           </View>
 
-          {!reverse ? (
-            <TextInput
-              placeholder={t("placeholder_old")}
-              placeholderTextColor={C.sub}
-              value={oldInput}
-              onChangeText={onChangeOld}
-              inputMode="numeric"
-              style={{
-                marginTop: 12,
-                backgroundColor: isDark ? "#0b1220" : "#f1f5f9",
-                color: C.text,
-                padding: 14,
-                borderRadius: 10,
-                textAlign: "center",
-                fontSize: 22,
-                fontWeight: "700",
-                borderWidth: 1,
-                borderColor: C.border,
-                fontVariant: ["tabular-nums"],
+          {/* input unit */}
+          {!linked && (
+            <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, marginTop: 12 }}>
+              {UNITS.map((u) => (
+                <Chip
+                  key={u}
+                  C={C}
+                  active={unit === u}
+                  label={t(`unit_${u}`)}
+                  onPress={() => setUnit(u)}
+                />
+              ))}
+            </View>
+          )}
+
+          {linked ? (
+            <View style={{ marginTop: 12, gap: 6 }}>
+              <Text style={{ color: C.sub, fontWeight: "600" }}>{t("unit_oldRial")}</Text>
+              <AmountInput
+                C={C}
+                i18n={i18n}
+                placeholder={t("placeholder_old")}
+                accessibilityLabel={t("unit_oldRial")}
+                accessibilityValue={{ text: spokenField(linkedOld) }}
+                maxFontSizeMultiplier={displayScale}
+                value={linkedOld}
+                onChangeText={editLinkedOld}
+              />
+              <Text style={{ color: C.sub, fontWeight: "600", marginTop: 4 }}>
+                {t("unit_newRial")}
+              </Text>
+              <View style={{ flexDirection: "row", gap: 8 }}>
+                <AmountInput
+                  C={C}
+                  i18n={i18n}
+                  placeholder={qeranDecimal ? t("placeholder_new_decimal") : t("placeholder_new")}
+                  accessibilityLabel={t("unit_newRial")}
+                  accessibilityValue={{ text: spokenField(linkedNew) }}
+                  maxFontSizeMultiplier={displayScale}
+                  value={linkedNew}
+                  onChangeText={editLinkedNew}
+                  style={{ flex: 1, borderColor: linkedRounded ? C.old : C.border }}
+                />
+                {!qeranDecimal && (
+                  <AmountInput
+                    C={C}
+                    i18n={i18n}
+                    placeholder={t("placeholder_qeran")}
+                    accessibilityLabel={t("qeran")}
+                    accessibilityValue={{ text: spokenField(linkedQeran) }}
+                    maxFontSizeMultiplier={displayScale}
+                    value={linkedQeran}
+                    onChangeText={editLinkedQeran}
+                    maxDigits={2}
+                    digitsOnly
+                    style={{ width: 120, borderColor: linkedRounded ? C.old : C.border }}
+                  />
+                )}
+              </View>
+              {linkedRounded && (
+                <Text style={{ color: C.old, textAlign: "center" }}>{t("linked_rounded")}</Text>
+              )}
+            </View>
+          ) : unit !== "newRial" ? (
+            // keyed by unit so each field keeps its own caret
+            <AmountInput
+              key={unit}
+              C={C}
+              i18n={i18n}
+              placeholder={
+                unit === "oldRial"
+                  ? t("placeholder_old")
+                  : unit === "oldToman"
+                    ? t("placeholder_toman_old")
+                    : t("placeholder_toman_new")
+              }
+              accessibilityLabel={t(`unit_${unit}`)}
+              accessibilityValue={{
+                text: spokenField(
+                  unit === "oldRial" ? oldInput : unit === "oldToman" ? tomanOldInput : tomanNewInput
+                ),
               }}
+              maxFontSizeMultiplier={displayScale}
+              value={
+                unit === "oldRial" ? oldInput : unit === "oldToman" ? tomanOldInput : tomanNewInput
+              }
+              onChangeText={
+                unit === "oldRial"
+                  ? setOldInput
+                  : unit === "oldToman"
+                    ? setTomanOldInput
+                    : setTomanNewInput
+              }
+              style={{ marginTop: 12 }}
             />
           ) : (
             <View style={{ marginTop: 12, flexDirection: "row", gap: 8 }}>
-              <TextInput
-                placeholder={t("placeholder_new")}
-                placeholderTextColor={C.sub}
+              <AmountInput
+                C={C}
+                i18n={i18n}
+                placeholder={qeranDecimal ? t("placeholder_new_decimal") : t("placeholder_new")}
+                accessibilityLabel={t("unit_newRial")}
+                accessibilityValue={{ text: spokenField(newInput) }}
+                maxFontSizeMultiplier={displayScale}
                 value={newInput}
-                onChangeText={onChangeNew}
-                inputMode="numeric"
-                style={{
-                  flex: 1,
-                  backgroundColor: isDark ? "#0b1220" : "#f1f5f9",
-                  color: C.text,
-                  padding: 14,
-                  borderRadius: 10,
-                  textAlign: "center",
-                  fontSize: 22,
-                  fontWeight: "700",
-                  borderWidth: 1,
-                  borderColor: C.border,
-                  fontVariant: ["tabular-nums"],
-                }}
-              />
-              <TextInput
-                placeholder={t("placeholder_qeran")}
-                placeholderTextColor={C.sub}
-                value={qeranInput}
-                onChangeText={onChangeQeran}
-                inputMode="numeric"
-                style={{
-                  width: 120,
-                  backgroundColor: isDark ? "#0b1220" : "#f1f5f9",
-                  color: C.text,
-                  padding: 14,
-                  borderRadius: 10,
-                  textAlign: "center",
-                  fontSize: 22,
-                  fontWeight: "700",
-                  borderWidth: 1,
-                  borderColor: C.border,
-                  fontVariant: ["tabular-nums"],
-                }}
+                onChangeText={setNewInput}
+                style={{ flex: 1 }}
               />
+              {!qeranDecimal && (
+                <AmountInput
+                  C={C}
+                  i18n={i18n}
+                  placeholder={t("placeholder_qeran")}
+                  accessibilityLabel={t("qeran")}
+                  accessibilityValue={{ text: spokenField(qeranInput) }}
+                  maxFontSizeMultiplier={displayScale}
+                  value={qeranInput}
+                  onChangeText={setQeranInput}
+                  maxDigits={2}
+                  digitsOnly
+                  style={{ width: 120 }}
+                />
+              )}
             </View>
           )}
+
+          {!result.parsed.ok && (
+            <Text
+              accessibilityLiveRegion="polite"
+              style={{ color: C.danger, textAlign: "center", marginTop: 8 }}
+            >
+              {parseErrorText(result.parsed)}
+            </Text>
+          )}
+          {found.length > 0 && (
+            <Pressable onPress={() => openExtract(result.text)} accessibilityRole="button">
+              <Text style={{ color: C.primary, textAlign: "center", marginTop: 6, fontWeight: "700" }}>
+                {t("extract_found", { count: fmtSmall(found.length) })}
+              </Text>
+            </Pressable>
+          )}
+          {result.preview !== null && (
+            <Text style={{ color: C.sub, textAlign: "center", marginTop: 8 }}>
+              {t(result.parsed.ok && result.parsed.inexact ? "preview_inexact" : "preview", {
+                amount: fmt(result.preview),
+              })}
+            </Text>
+          )}
         </View>
 
         {/* Result card */}
@@ -465,64 +843,295 @@ export default function App() {
             alignItems: "center",
           }}
         >
-          {result.mode === "oldToNew" ? (
-            <>
-              <Text style={{ color: C.text, fontSize: 24, fontWeight: "800", textAlign: "center" }}>
-                <Text style={{ color: C.ok, fontSize: 30, fontWeight: "800" }}>
-                  {formatBigInt(result.newRial, lang)}
-                </Text>{" "}
-                {lang === "fa" ? t("new_rial") : t("result_new")} {lang === "fa" ? "و" : "&"}{" "}
-                <Text style={{ color: C.qeran, fontSize: 26, fontWeight: "800" }}>
-                  {formatSmall(result.qeran, lang)}
-                </Text>{" "}
-                {t("qeran")}
-              </Text>
+          {/* live region: read as words once typing pauses */}
+          <View
+            accessible
+            accessibilityLiveRegion="polite"
+            accessibilityLabel={announced}
+            style={{ alignSelf: "stretch", alignItems: "center" }}
+          >
+            {result.mode === "oldToNew" ? (
+              <>
+                <Text
+                  maxFontSizeMultiplier={displayScale}
+                  style={{ color: C.text, fontSize: 24, fontWeight: "800", textAlign: "center" }}
+                >
+                  {qeranDecimal ? (
+                    <>
+                      <Text style={{ color: C.ok, fontSize: 30, fontWeight: "800" }}>
+                        {i18n.fmtDecimal(result.newRial, qeranDigits)}
+                      </Text>{" "}
+                      {t("result_new")}
+                    </>
+                  ) : (
+                    <>
+                      <Text style={{ color: C.ok, fontSize: 30, fontWeight: "800" }}>
+                        {fmt(result.newRial)}
+                      </Text>{" "}
+                      {t("result_new")} {t("and")}{" "}
+                      <Text style={{ color: C.qeran, fontSize: 26, fontWeight: "800" }}>
+                        {fmtSmall(result.qeran)}
+                      </Text>{" "}
+                      {t("qeran")}
+                    </>
+                  )}
+                </Text>
 
-              {/* words */}
-              <Text style={{ color: C.sub, textAlign: "center", marginTop: 8 }}>
-                {lang === "fa"
-                  ? `${t("letters_new")}: ${bigIntToPersianWords(
-                      result.newRial
-                    )}${result.qeran > 0 ? ` ریال و ${tripletToFaWords(result.qeran)} قِران` : " ریال"}`
-                  : `${t("letters_new")}: ${formatBigInt(result.newRial, "en")} rial(s)` +
-                    (result.qeran > 0 ? ` and ${result.qeran} qeran` : "")}
-              </Text>
+                {/* words */}
+                <Text style={{ color: C.sub, textAlign: "center", marginTop: 8 }}>
+                  {`${t("letters_new")}: ${resultInWords(result, "oldToNew", words)}`}
+                </Text>
+              </>
+            ) : (
+              <>
+                <Text
+                  maxFontSizeMultiplier={displayScale}
+                  style={{ color: C.text, fontSize: 24, fontWeight: "800", textAlign: "center" }}
+                >
+                  <Text style={{ color: C.old, fontSize: 30, fontWeight: "800" }}>
+                    {fmt(result.oldRial)}
+                  </Text>{" "}
+                  {t("result_old")}
+                </Text>
 
-              {/* toman (old) from old rial */}
-              <Text style={{ color: C.sub, textAlign: "center", marginTop: 4 }}>
-                {lang === "fa"
-                  ? t("approx_toman").replace("_", formatBigInt(result.tomanOld, "fa"))
-                  : t("approx_toman").replace("_", formatBigInt(result.tomanOld, "en"))}
-              </Text>
-            </>
-          ) : (
-            <>
-              <Text style={{ color: C.text, fontSize: 24, fontWeight: "800", textAlign: "center" }}>
-                <Text style={{ color: C.old, fontSize: 30, fontWeight: "800" }}>
-                  {formatBigInt(result.oldRial, lang)}
-                </Text>{" "}
-                {t("result_old")}
-              </Text>
+                <Text style={{ color: C.sub, textAlign: "center", marginTop: 8 }}>
+                  {`${t("letters_old")}: ${resultInWords(result, "newToOld", words)}`}
+                </Text>
+              </>
+            )}
+          </View>
 
-              <Text style={{ color: C.sub, textAlign: "center", marginTop: 8 }}>
-                {lang === "fa"
-                  ? `${t("letters_old")}: ${bigIntToPersianWords(result.oldRial)} ریال`
-                  : `${t("letters_old")}: ${formatBigInt(result.oldRial, "en")} rial(s)`}
-              </Text>
+          {/* cheque / invoice wording of the result side */}
+          <View style={{ flexDirection: "row", gap: 6, alignItems: "center", marginTop: 10 }}>
+            <Text style={{ color: C.text, fontWeight: "600" }}>{t("cheque")}</Text>
+            {(["rial", "toman"] as const).map((u) => (
+              <Pressable
+                key={u}
+                onPress={() => setChequeToman(u === "toman")}
+                accessibilityRole="button"
+                accessibilityState={{ selected: chequeToman === (u === "toman") }}
+                style={{
+                  paddingVertical: 4,
+                  paddingHorizontal: 8,
+                  borderRadius: 8,
+                  backgroundColor: chequeToman === (u === "toman") ? C.primary : C.card,
+                  borderWidth: 1,
+                  borderColor: C.border,
+                }}
+              >
+                <Text
+                  style={{
+                    color: chequeToman === (u === "toman") ? C.onPrimary : C.text,
+                    fontWeight: "700",
+                  }}
+                >
+                  {t(`cheque_${u}`)}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <Text selectable style={{ color: C.text, textAlign: "center", marginTop: 6 }}>
+            {chequeWording(result, chequeUnit, words)}
+          </Text>
 
-              <Text style={{ color: C.sub, textAlign: "center", marginTop: 4 }}>
-                {lang === "fa"
-                  ? t("approx_toman").replace("_", formatBigInt(result.tomanOld, "fa"))
-                  : t("approx_toman").replace("_", formatBigInt(result.tomanOld, "en"))}
+          {/* copy / share */}
+          <View style={{ flexDirection: "row", gap: 8, marginTop: 12 }}>
+            <Pressable
+              onPress={copySummary}
+              accessibilityRole="button"
+              accessibilityLabel={t("copy")}
+              style={{
+                backgroundColor: C.card,
+                borderWidth: 1,
+                borderColor: C.border,
+                borderRadius: 20,
+                paddingHorizontal: 12,
+                paddingVertical: 6,
+              }}
+            >
+              <Text style={{ color: C.text, fontWeight: "700" }}>
+                {copied ? `✓ ${t("copied")}` : t("copy")}
               </Text>
-            </>
-          )}
+            </Pressable>
+            <Pressable
+              onPress={shareSummary}
+              accessibilityRole="button"
+              style={{
+                backgroundColor: C.primary,
+                borderRadius: 20,
+                paddingHorizontal: 12,
+                paddingVertical: 6,
+              }}
+            >
+              <Text style={{ color: C.onPrimary, fontWeight: "700" }}>{t("share")}</Text>
+            </Pressable>
+          </View>
+
+          {/* every unit, with the remainders that don't fit */}
+          <View
+            style={{
+              alignSelf: "stretch",
+              borderTopWidth: 1,
+              borderColor: C.border,
+              marginTop: 12,
+              paddingTop: 10,
+              gap: 4,
+            }}
+          >
+            <Text style={{ color: C.text, fontWeight: "700" }}>{t("all_units")}</Text>
+            <Text
+              style={{ color: C.sub }}
+              accessibilityLabel={`${t("unit_oldToman")}: ${say(result.oldToman)}${
+                result.oldTomanRem > 0n ? ` ${t("and_rial", { amount: say(result.oldTomanRem) })}` : ""
+              }`}
+            >
+              {t("unit_oldToman")}: {fmt(result.oldToman)}
+              {result.oldTomanRem > 0n
+                ? ` ${t("and_rial", { amount: fmt(result.oldTomanRem) })}`
+                : ""}
+            </Text>
+            <Text
+              style={{ color: C.sub }}
+              accessibilityLabel={`${t("unit_oldRial")}: ${say(result.oldRial)}`}
+            >
+              {t("unit_oldRial")}: {fmt(result.oldRial)}
+            </Text>
+            <Text
+              style={{ color: C.sub }}
+              accessibilityLabel={`${t("unit_newToman")}: ${say(result.newToman)}${
+                result.newTomanRem > 0n
+                  ? ` ${t("and_new_rial", { amount: say(result.newTomanRem) })}`
+                  : ""
+              }${result.qeran > 0 ? ` ${t("and")} ${say(result.qeran)} ${t("qeran")}` : ""}`}
+            >
+              {t("unit_newToman")}: {fmt(result.newToman)}
+              {result.newTomanRem > 0n
+                ? ` ${t("and_new_rial", { amount: fmt(result.newTomanRem) })}`
+                : ""}
+              {result.qeran > 0
+                ? ` ${t("and")} ${fmtSmall(result.qeran)} ${t("qeran")}`
+                : ""}
+            </Text>
+            <Text
+              style={{ color: C.sub }}
+              accessibilityLabel={`${t("unit_newRial")}: ${say(result.newRial)} ${t("and")} ${say(
+                result.qeran
+              )} ${t("qeran")}`}
+            >
+              {t("unit_newRial")}:{" "}
+              {qeranDecimal
+                ? i18n.fmtDecimal(result.newRial, qeranDigits)
+                : `${fmt(result.newRial)} ${t("and")} ${fmtSmall(result.qeran)} ${t("qeran")}`}
+            </Text>
+            {!result.exact && (
+              <>
+                <Text style={{ color: C.old, marginTop: 4 }}>
+                  {t(result.roundingDiff > 0n ? "rem_dropped" : "rem_rounded_up", {
+                    amount: fmt(result.roundingDiff > 0n ? result.roundingDiff : -result.roundingDiff),
+                  })}
+                </Text>
+                <Text style={{ color: C.old }}>
+                  ⚠ {t("roundtrip_mismatch", { amount: fmt(result.roundTripOld) })}
+                </Text>
+              </>
+            )}
+          </View>
         </View>
       </ScrollView>
 
+      <HistoryModal
+        C={C}
+        i18n={i18n}
+        visible={showHistory}
+        entries={history}
+        onClose={() => setShowHistory(false)}
+        onSelect={loadHistoryEntry}
+        onUpdate={(id, patch) => setHistory((h) => updateHistoryEntry(h, id, patch))}
+        onRemove={(id) => setHistory((h) => removeHistoryEntry(h, id))}
+        onClear={() => setHistory((h) => h.filter((e) => e.favorite))}
+      />
+
+      <ExtractModal
+        C={C}
+        i18n={i18n}
+        visible={showExtract}
+        initialText={extractText}
+        onClose={() => setShowExtract(false)}
+        onPick={pickAmount}
+      />
+
+      <CashModal
+        C={C}
+        i18n={i18n}
+        visible={showCash}
+        result={result}
+        rounding={rounding}
+        denominations={denominations}
+        onChangeDenominations={setDenominations}
+        onClose={() => setShowCash(false)}
+      />
+
+      <SplitModal
+        C={C}
+        i18n={i18n}
+        visible={showSplit}
+        result={result}
+        rounding={rounding}
+        onClose={() => setShowSplit(false)}
+      />
+
+      <CurrencyModal
+        C={C}
+        i18n={i18n}
+        visible={showCurrency}
+        rates={rates}
+        rounding={rounding}
+        onChangeRates={setRates}
+        onClose={() => setShowCurrency(false)}
+      />
+
+      <InvoiceModal
+        C={C}
+        i18n={i18n}
+        visible={showInvoice}
+        invoices={invoices}
+        onChangeInvoices={setInvoices}
+        onClose={() => setShowInvoice(false)}
+      />
+
+      <TableModal
+        C={C}
+        i18n={i18n}
+        visible={showTable}
+        rounding={rounding}
+        scheme={scheme}
+        accent={accent}
+        onClose={() => setShowTable(false)}
+      />
+
+      <BatchModal
+        C={C}
+        i18n={i18n}
+        visible={showBatch}
+        rounding={rounding}
+        onClose={() => setShowBatch(false)}
+      />
+
       {/* Settings Modal */}
-      <Modal visible={showSettings} animationType="slide" transparent>
-        <View style={{ flex: 1, backgroundColor: "rgba(0,0,0,0.35)", justifyContent: "flex-end" }}>
+      <Modal
+        visible={showSettings}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setShowSettings(false)}
+      >
+        <View
+          style={{
+            flex: 1,
+            backgroundColor: C.overlay,
+            justifyContent: "flex-end",
+            direction: i18n.dir,
+          }}
+        >
           <View
             style={{
               backgroundColor: C.card,
@@ -531,6 +1140,7 @@ export default function App() {
               padding: 16,
               borderTopWidth: 1,
               borderColor: C.border,
+              maxHeight: "85%",
             }}
           >
             <Text
@@ -545,143 +1155,214 @@ export default function App() {
               {t("settings")}
             </Text>
 
-            {/* Language */}
-            <View
-              style={{
-                flexDirection: "row",
-                justifyContent: "space-between",
-                alignItems: "center",
-                marginVertical: 8,
-              }}
-            >
-              <Text style={{ color: C.text, fontWeight: "600" }}>{t("language")}</Text>
-              <View style={{ flexDirection: "row" }}>
-                <Pressable
-                  onPress={() => setLang("fa")}
-                  style={{
-                    paddingVertical: 6,
-                    paddingHorizontal: 10,
-                    borderRadius: 8,
-                    backgroundColor: lang === "fa" ? C.primary : C.card,
-                    borderWidth: 1,
-                    borderColor: C.border,
-                    marginRight: 6,
-                  }}
-                >
-                  <Text style={{ color: lang === "fa" ? "#fff" : C.text, fontWeight: "700" }}>
-                    FA
-                  </Text>
-                </Pressable>
-                <Pressable
-                  onPress={() => setLang("en")}
-                  style={{
-                    paddingVertical: 6,
-                    paddingHorizontal: 10,
-                    borderRadius: 8,
-                    backgroundColor: lang === "en" ? C.primary : C.card,
-                    borderWidth: 1,
-                    borderColor: C.border,
-                  }}
-                >
-                  <Text style={{ color: lang === "en" ? "#fff" : C.text, fontWeight: "700" }}>
-                    EN
-                  </Text>
-                </Pressable>
+            <ScrollView keyboardShouldPersistTaps="handled">
+              {/* Language */}
+              <View
+                style={{
+                  flexDirection: "row",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  marginVertical: 8,
+                }}
+              >
+                <Text style={{ color: C.text, fontWeight: "600" }}>{t("language")}</Text>
+                <View style={{ flexDirection: "row", gap: 6 }}>
+                  {LOCALE_CODES.map((code) => (
+                    <Chip
+                      key={code}
+                      C={C}
+                      active={lang === code}
+                      label={LOCALES[code].label}
+                      accessibilityLabel={LOCALES[code].name}
+                      onPress={() => setLang(code)}
+                    />
+                  ))}
+                </View>
               </View>
-            </View>
 
-            {/* Theme */}
-            <View
-              style={{
-                flexDirection: "row",
-                justifyContent: "space-between",
-                alignItems: "center",
-                marginVertical: 8,
-              }}
-            >
-              <Text style={{ color: C.text, fontWeight: "600" }}>{t("theme")}</Text>
-              <View style={{ flexDirection: "row" }}>
-                <Pressable
-                  onPress={() => setTheme("auto")}
-                  style={{
-                    paddingVertical: 6,
-                    paddingHorizontal: 10,
-                    borderRadius: 8,
-                    backgroundColor: theme === "auto" ? C.primary : C.card,
-                    borderWidth: 1,
-                    borderColor: C.border,
-                    marginRight: 6,
-                  }}
-                >
-                  <Text style={{ color: theme === "auto" ? "#fff" : C.text, fontWeight: "700" }}>
-                    {t("auto")}
-                  </Text>
-                </Pressable>
-                <Pressable
-                  onPress={() => setTheme("light")}
-                  style={{
-                    paddingVertical: 6,
-                    paddingHorizontal: 10,
-                    borderRadius: 8,
-                    backgroundColor: theme === "light" ? C.primary : C.card,
-                    borderWidth: 1,
-                    borderColor: C.border,
-                    marginRight: 6,
-                  }}
-                >
-                  <Text style={{ color: theme === "light" ? "#fff" : C.text, fontWeight: "700" }}>
-                    {t("light")}
-                  </Text>
-                </Pressable>
+              {/* Qeran input */}
+              <View
+                style={{
+                  flexDirection: "row",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  marginVertical: 8,
+                }}
+              >
+                <Text style={{ color: C.text, fontWeight: "600" }}>{t("qeran_input")}</Text>
+                <View style={{ flexDirection: "row", gap: 6 }}>
+                  <Chip
+                    C={C}
+                    active={!qeranDecimal}
+                    label={t("qeran_separate")}
+                    onPress={() => setQeranDecimal(false)}
+                  />
+                  <Chip
+                    C={C}
+                    active={qeranDecimal}
+                    label={t("qeran_decimal")}
+                    onPress={() => setQeranDecimal(true)}
+                  />
+                </View>
+              </View>
+
+              {/* Number format, independent of the language */}
+              <Text style={{ color: C.text, fontWeight: "600", marginTop: 8 }}>
+                {t("number_format")}:{" "}
+                <Text style={{ color: C.sub, fontVariant: ["tabular-nums"] }}>
+                  {fmt(1234567n)} · {i18n.fmtNew(55n, 40)}
+                </Text>
+              </Text>
+              {formatRow(
+                "digits",
+                t("number_digits"),
+                DIGIT_SCRIPTS.map((d) => ({ value: d, label: mapDigits("123", d) }))
+              )}
+              {formatRow(
+                "separator",
+                t("number_separator"),
+                GROUP_SEPARATORS.map((sep) => ({ value: sep, label: separatorLabel(sep) }))
+              )}
+              {formatRow(
+                "groupSize",
+                t("number_group_size"),
+                GROUP_SIZES.map((n) => ({ value: n, label: fmtSmall(n) }))
+              )}
+
+              {/* Rounding */}
+              <View
+                style={{
+                  flexDirection: "row",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  marginVertical: 8,
+                }}
+              >
+                <Text style={{ color: C.text, fontWeight: "600" }}>{t("rounding")}</Text>
+                <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, flexShrink: 1 }}>
+                  {ROUNDING_MODES.map((m) => (
+                    <Chip
+                      key={m}
+                      C={C}
+                      active={rounding === m}
+                      label={t(`rounding_${m}`)}
+                      onPress={() => setRounding(m)}
+                    />
+                  ))}
+                </View>
+              </View>
+
+              {/* Share template */}
+              <View
+                style={{
+                  flexDirection: "row",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  marginVertical: 8,
+                }}
+              >
+                <Text style={{ color: C.text, fontWeight: "600" }}>{t("share_template")}</Text>
+                <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, flexShrink: 1 }}>
+                  {SUMMARY_TEMPLATES.map((tpl) => (
+                    <Chip
+                      key={tpl}
+                      C={C}
+                      active={shareTemplate === tpl}
+                      label={t(`template_${tpl}`)}
+                      onPress={() => setShareTemplate(tpl)}
+                    />
+                  ))}
+                </View>
+              </View>
+
+              {/* Theme */}
+              <View
+                style={{
+                  flexDirection: "row",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  marginVertical: 8,
+                }}
+              >
+                <Text style={{ color: C.text, fontWeight: "600" }}>{t("theme")}</Text>
+                <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, flexShrink: 1 }}>
+                  {THEME_SETTINGS.map((th) => (
+                    <Chip
+                      key={th}
+                      C={C}
+                      active={theme === th}
+                      label={t(`theme_${th}`)}
+                      onPress={() => setTheme(th)}
+                    />
+                  ))}
+                </View>
+              </View>
+
+              {/* Accent colour */}
+              <View
+                style={{
+                  flexDirection: "row",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  marginVertical: 8,
+                }}
+              >
+                <Text style={{ color: C.text, fontWeight: "600" }}>{t("accent")}</Text>
+                <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8, flexShrink: 1 }}>
+                  {ACCENT_NAMES.map((a) => (
+                    <Pressable
+                      key={a}
+                      onPress={() => setAccent(a)}
+                      accessibilityRole="button"
+                      accessibilityLabel={t(`accent_${a}`)}
+                      accessibilityState={{ selected: accent === a }}
+                      style={{
+                        width: 28,
+                        height: 28,
+                        borderRadius: 14,
+                        backgroundColor: scheme === "contrast" ? ACCENTS[a].bright : ACCENTS[a].normal,
+                        borderWidth: accent === a ? 3 : 1,
+                        borderColor: accent === a ? C.text : C.border,
+                      }}
+                    />
+                  ))}
+                </View>
+              </View>
+
+              {/* Contact Us */}
+              <View style={{ marginTop: 10 }}>
+                <Text style={{ color: C.text, fontWeight: "700", marginBottom: 6 }}>
+                  {t("contact")}
+                </Text>
                 <Pressable
-                  onPress={() => setTheme("dark")}
+                  onPress={openMail}
+                  accessibilityRole="button"
                   style={{
+                    alignSelf: "flex-start",
                     paddingVertical: 6,
                     paddingHorizontal: 10,
                     borderRadius: 8,
-                    backgroundColor: theme === "dark" ? C.primary : C.card,
-                    borderWidth: 1,
-                    borderColor: C.border,
+                    backgroundColor: C.muted,
                   }}
                 >
-                  <Text style={{ color: theme === "dark" ? "#fff" : C.text, fontWeight: "700" }}>
-                    {t("dark")}
+                  <Text style={{ color: C.onMuted, fontWeight: "700" }}>
+                    {t("email_label")}: dev.yari1985@gmail.com
                   </Text>
                 </Pressable>
               </View>
-            </View>
 
-            {/* Contact Us */}
-            <View style={{ marginTop: 10 }}>
-              <Text style={{ color: C.text, fontWeight: "700", marginBottom: 6 }}>
-                {t("contact")}
-              </Text>
-              <Pressable
-                onPress={openMail}
-                style={{
-                  alignSelf: "flex-start",
-                  paddingVertical: 6,
-                  paddingHorizontal: 10,
-                  borderRadius: 8,
-                  backgroundColor: "#e2e8f0",
-                }}
-              >
-                <Text style={{ color: "#0f172a", fontWeight: "700" }}>
-                  {t("email_label")}: dev.yari1985@gmail.com
+              {/* Privacy (moved from home) */}
+              <View style={{ marginTop: 12 }}>
+                <Text style={{ color: C.text, fontWeight: "700", marginBottom: 6 }}>
+                  {t("privacy_header")}
                 </Text>
-              </Pressable>
-            </View>
-
-            {/* Privacy (moved from home) */}
-            <View style={{ marginTop: 12 }}>
-              <Text style={{ color: C.text, fontWeight: "700", marginBottom: 6 }}>
-                {t("privacy_header")}
-              </Text>
-              <Text style={{ color: C.sub, lineHeight: 22 }}>{t("privacy_body")}</Text>
-            </View>
+                <Text style={{ color: C.sub, lineHeight: 22 }}>{t("privacy_body")}</Text>
+              </View>
+            </ScrollView>
 
             <Pressable
               onPress={() => setShowSettings(false)}
+              accessibilityRole="button"
               style={{
                 marginTop: 14,
                 alignSelf: "center",
@@ -691,7 +1372,7 @@ export default function App() {
                 borderRadius: 10,
               }}
             >
-              <Text style={{ color: "#fff", fontWeight: "800" }}>{t("close")}</Text>
+              <Text style={{ color: C.onPrimary, fontWeight: "800" }}>{t("close")}</Text>
             </Pressable>
           </View>
         </View>
@@ -1,5 +1,7 @@
 package com.appyari.rialconverter
 
+import android.content.Intent
+import android.net.Uri
 import android.os.Build
 import android.os.Bundle
 
@@ -16,9 +18,31 @@ class MainActivity : ReactActivity() {
     // coloring the background, status bar, and navigation bar.
     // This is required for expo-splash-screen.
     setTheme(R.style.AppTheme);
+    intent = sharedTextAsLink(intent)
     super.onCreate(null)
   }
 
+  override fun onNewIntent(intent: Intent) {
+    val link = sharedTextAsLink(intent)
+    setIntent(link)
+    super.onNewIntent(link)
+  }
+
+  /**
+   * Text shared to the app from another app arrives as a SEND intent. Turn it into a
+   * rialconverter://convert?text=… link so JS gets it through Linking like any deep link.
+   */
+  private fun sharedTextAsLink(intent: Intent): Intent {
+    if (intent.action != Intent.ACTION_SEND || intent.type != "text/plain") return intent
+    val text = intent.getStringExtra(Intent.EXTRA_TEXT) ?: return intent
+    val uri = Uri.Builder()
+      .scheme("rialconverter")
+      .authority("convert")
+      .appendQueryParameter("text", text)
+      .build()
+    return Intent(Intent.ACTION_VIEW, uri)
+  }
+
   /**
    * Returns the name of the main component registered from JavaScript. This is used to schedule
    * rendering of the component.
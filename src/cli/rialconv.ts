@@ -0,0 +1,199 @@
+#!/usr/bin/env node
+/* ======================= rialconv: the app's conversion engine on the command line ======================= */
+import { createInterface } from "node:readline";
+import {
+  breakdownOld,
+  isOldUnit,
+  parseAmountInUnit,
+  resultInWords,
+  ROUNDING_MODES,
+  UNITS,
+  type AmountParseResult,
+  type RoundingMode,
+  type Unit,
+} from "../engine";
+import { LOCALE_CODES, makeI18n, type I18n, type Locale } from "../i18n";
+
+const USAGE = `Usage: rialconv [amount ...] [options]
+Convert between old rial and new rial/qeran. Without amounts, reads one amount per line from stdin.
+Amounts are parsed like the app's fields: digits in any script, words, "5.5M", "1,200,000 + 9%".
+
+Options:
+  --to new|old      old rial -> new rial/qeran (default), or new rial ("55.40") -> old rial
+  --from UNIT       input unit: ${UNITS.join(", ")} (overrides --to)
+  --rounding MODE   below one qeran: ${ROUNDING_MODES.join(", ")} (default truncate)
+  --words           add the result in words
+  --lang LOCALE     output language and digits: ${LOCALE_CODES.join(", ")} (default en)
+  --json            one JSON object per amount
+  -h, --help        show this help
+
+Exit status: 0 every amount converted, 1 some amount was invalid, 2 bad usage, 3 input could not be read.`;
+
+const EXIT_INVALID = 1;
+const EXIT_USAGE = 2;
+const EXIT_ERROR = 3;
+
+type Options = {
+  from: Unit;
+  rounding: RoundingMode;
+  words: boolean;
+  lang: Locale;
+  json: boolean;
+  help: boolean;
+  amounts: string[];
+};
+
+class UsageError extends Error {}
+
+const oneOf = <T extends string>(option: string, value: string, allowed: readonly T[]): T => {
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`${option} must be one of ${allowed.join(", ")} (got "${value}")`);
+  }
+  return value as T;
+};
+
+const parseArgs = (argv: string[]): Options => {
+  const o: Options = {
+    from: "oldRial",
+    rounding: "truncate",
+    words: false,
+    lang: "en",
+    json: false,
+    help: false,
+    amounts: [],
+  };
+  let to: "new" | "old" = "new";
+  let from: Unit | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    // "--lang=fa" and "--lang fa" are the same
+    const eq = argv[i].startsWith("--") ? argv[i].indexOf("=") : -1;
+    const arg = eq === -1 ? argv[i] : argv[i].slice(0, eq);
+    const inline = eq === -1 ? undefined : argv[i].slice(eq + 1);
+    const value = () => {
+      const v = inline ?? argv[++i];
+      if (v === undefined) throw new UsageError(`${arg} needs a value`);
+      return v;
+    };
+    switch (arg) {
+      case "--to":
+        to = oneOf(arg, value(), ["new", "old"] as const);
+        break;
+      case "--from":
+        from = oneOf(arg, value(), UNITS);
+        break;
+      case "--rounding":
+        o.rounding = oneOf(arg, value(), ROUNDING_MODES);
+        break;
+      case "--lang":
+        o.lang = oneOf(arg, value(), LOCALE_CODES);
+        break;
+      case "--words":
+        o.words = true;
+        break;
+      case "--json":
+        o.json = true;
+        break;
+      case "-h":
+      case "--help":
+        o.help = true;
+        break;
+      case "--":
+        o.amounts.push(...argv.slice(i + 1));
+        i = argv.length;
+        break;
+      default:
+        // "-5" is an amount (rejected later as negative), "--x" is a typo
+        if (arg.startsWith("--")) throw new UsageError(`unknown option ${arg}`);
+        o.amounts.push(argv[i]);
+    }
+  }
+  o.from = from ?? (to === "old" ? "newRial" : "oldRial");
+  return o;
+};
+
+/** Convert one amount exactly as the app does for a field in `from`. */
+const convert = (text: string, o: Options) => {
+  const parsed: AmountParseResult = parseAmountInUnit(text, o.from);
+  if (!parsed.ok) return parsed;
+  const mode = isOldUnit(o.from) ? ("oldToNew" as const) : ("newToOld" as const);
+  return { ...parsed, mode, ...breakdownOld(parsed.value, o.rounding) };
+};
+
+const render = (
+  input: string,
+  o: Options,
+  i18n: I18n
+): { ok: boolean; out?: string; err?: string } => {
+  const { t, fmt, fmtSmall } = i18n;
+  const r = convert(input, o);
+  if (!r.ok) {
+    const message = t(`err_${r.code}`, { text: r.fragment });
+    return o.json
+      ? { ok: false, out: JSON.stringify({ input, ok: false, code: r.code, message }) }
+      : { ok: false, err: `rialconv: "${input}": ${message}` };
+  }
+  const words = o.words ? resultInWords(r, r.mode, i18n.words) : undefined;
+  if (o.json) {
+    // bigints as strings: they don't fit a JSON number
+    return {
+      ok: true,
+      out: JSON.stringify({
+        input,
+        ok: true,
+        direction: r.mode,
+        oldRial: r.oldRial.toString(),
+        newRial: r.newRial.toString(),
+        qeran: r.qeran,
+        subQeranRem: r.subQeranRem.toString(),
+        exact: r.exact,
+        roundTripOld: r.roundTripOld.toString(),
+        inexact: r.inexact ?? false,
+        ...(words !== undefined && { words }),
+      }),
+    };
+  }
+  const amount =
+    r.mode === "oldToNew"
+      ? `${fmt(r.newRial)} ${t("result_new")} ${t("and")} ${fmtSmall(r.qeran)} ${t("qeran")}`
+      : `${fmt(r.oldRial)} ${t("result_old")}`;
+  return { ok: true, out: words !== undefined ? `${amount} (${words})` : amount };
+};
+
+const main = async () => {
+  let o: Options;
+  try {
+    o = parseArgs(process.argv.slice(2));
+  } catch (e) {
+    if (!(e instanceof UsageError)) throw e;
+    process.stderr.write(`rialconv: ${e.message}\n\n${USAGE}\n`);
+    process.exitCode = EXIT_USAGE;
+    return;
+  }
+  if (o.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+
+  const i18n = makeI18n(o.lang);
+  let failed = false;
+  const handle = (input: string) => {
+    const { ok, out, err } = render(input, o, i18n);
+    if (out !== undefined) process.stdout.write(`${out}\n`);
+    if (err !== undefined) process.stderr.write(`${err}\n`);
+    if (!ok) failed = true;
+  };
+
+  if (o.amounts.length > 0) {
+    o.amounts.forEach(handle);
+  } else {
+    const lines = createInterface({ input: process.stdin, crlfDelay: Infinity });
+    for await (const line of lines) if (line.trim()) handle(line.trim());
+  }
+  if (failed) process.exitCode = EXIT_INVALID;
+};
+
+main().catch((e: unknown) => {
+  process.stderr.write(`rialconv: ${e instanceof Error ? e.message : String(e)}\n`);
+  process.exitCode = EXIT_ERROR;
+});
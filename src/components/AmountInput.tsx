@@ -0,0 +1,67 @@
+import React, { useState } from "react";
+import { Platform, TextInput, type TextInputProps } from "react-native";
+import { applyAmountEdit } from "./amountEdit";
+import type { UiProps } from "./types";
+
+type Props = UiProps &
+  Omit<TextInputProps, "value" | "onChangeText" | "selection" | "onSelectionChange"> & {
+    value: string;
+    onChangeText: (text: string) => void;
+    /** Keep at most this many digits (e.g. 2 for qeran). */
+    maxDigits?: number;
+    /** Drop anything that isn't a digit instead of keeping words and expressions as typed. */
+    digitsOnly?: boolean;
+  };
+
+/** Controlled amount field: live grouping in the locale's digits with a caret that stays put. */
+export default function AmountInput({
+  C,
+  i18n,
+  value,
+  onChangeText,
+  maxDigits,
+  digitsOnly,
+  style,
+  ...rest
+}: Props) {
+  const [selection, setSelection] = useState<{ start: number; end: number }>();
+
+  const onChange = (next: string) => {
+    const edit = applyAmountEdit(value, next, i18n.group, { maxDigits, digitsOnly });
+    setSelection(edit.caret === null ? undefined : { start: edit.caret, end: edit.caret });
+    onChangeText(edit.text);
+  };
+
+  // a number pad only for digits; other fields take words and + − × ÷ ( ) %, which it lacks
+  const keyboard: TextInputProps = digitsOnly
+    ? { inputMode: "numeric" }
+    : { keyboardType: Platform.OS === "ios" ? "numbers-and-punctuation" : "default" };
+
+  return (
+    <TextInput
+      placeholderTextColor={C.sub}
+      {...keyboard}
+      {...rest}
+      value={value}
+      onChangeText={onChange}
+      // a stale selection past the end (value replaced from outside) must not reach the native side
+      selection={selection && selection.end <= value.length ? selection : undefined}
+      onSelectionChange={(e) => setSelection(e.nativeEvent.selection)}
+      style={[
+        {
+          backgroundColor: C.field,
+          color: C.text,
+          padding: 14,
+          borderRadius: 10,
+          textAlign: "center",
+          fontSize: 22,
+          fontWeight: "700",
+          borderWidth: 1,
+          borderColor: C.border,
+          fontVariant: ["tabular-nums"],
+        },
+        style,
+      ]}
+    />
+  );
+}
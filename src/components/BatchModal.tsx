@@ -0,0 +1,213 @@
+import React, { useMemo, useState } from "react";
+import { Modal, View, Text, TextInput, Pressable, ScrollView, Share } from "react-native";
+import {
+  convertBatch,
+  batchToCsv,
+  batchToText,
+  onlyDigits,
+  type BatchDirection,
+  type BatchErrorCode,
+  type DigitScript,
+  type RoundingMode,
+} from "../engine";
+import Chip from "./Chip";
+import type { UiProps } from "./types";
+
+type Props = UiProps & { visible: boolean; rounding: RoundingMode; onClose: () => void };
+
+export default function BatchModal({ C, i18n, visible, rounding, onClose }: Props) {
+  const { t, fmt, fmtSmall } = i18n;
+  const [text, setText] = useState("");
+  const [direction, setDirection] = useState<BatchDirection>("oldToNew");
+  const [columnInput, setColumnInput] = useState("");
+  const [header, setHeader] = useState(false);
+  const [digits, setDigits] = useState<DigitScript>(i18n.number.digits);
+
+  const column = Number(onlyDigits(columnInput)) || undefined;
+  const rows = useMemo(
+    () => convertBatch(text, { direction, column, header, rounding }),
+    [text, direction, column, header, rounding]
+  );
+  const errorText = (code: BatchErrorCode, fragment: string) =>
+    t(`err_${code}`, { text: fragment });
+
+  const exportAs = (format: "csv" | "text") => {
+    const message =
+      format === "csv"
+        ? batchToCsv(rows, digits)
+        : batchToText(rows, i18n.words, t, errorText, { ...i18n.number, digits });
+    Share.share({ message, title: t("batch") });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={{ flex: 1, backgroundColor: C.bg, padding: 16, direction: i18n.dir }}>
+        <Text
+          style={{
+            color: C.text,
+            fontSize: 18,
+            fontWeight: "800",
+            textAlign: "center",
+            marginBottom: 8,
+          }}
+        >
+          {t("batch")}
+        </Text>
+
+        {/* options */}
+        <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, alignItems: "center" }}>
+          <Chip
+            C={C}
+            active={direction === "oldToNew"}
+            label={t("mode_oldRial")}
+            onPress={() => setDirection("oldToNew")}
+          />
+          <Chip
+            C={C}
+            active={direction === "newToOld"}
+            label={t("mode_newRial")}
+            onPress={() => setDirection("newToOld")}
+          />
+        </View>
+        <View
+          style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, alignItems: "center", marginTop: 8 }}
+        >
+          <Text style={{ color: C.text, fontWeight: "600" }}>{t("batch_column")}</Text>
+          <TextInput
+            value={columnInput}
+            onChangeText={setColumnInput}
+            inputMode="numeric"
+            placeholder={t("batch_column_all")}
+            placeholderTextColor={C.sub}
+            style={{
+              minWidth: 70,
+              backgroundColor: C.field,
+              color: C.text,
+              paddingHorizontal: 10,
+              paddingVertical: 6,
+              borderRadius: 8,
+              borderWidth: 1,
+              borderColor: C.border,
+              textAlign: "center",
+            }}
+          />
+          <Chip
+            C={C}
+            active={header}
+            label={t("batch_header")}
+            onPress={() => setHeader((h) => !h)}
+          />
+        </View>
+
+        <TextInput
+          multiline
+          value={text}
+          onChangeText={setText}
+          placeholder={t("batch_placeholder")}
+          placeholderTextColor={C.sub}
+          textAlignVertical="top"
+          style={{
+            marginTop: 10,
+            height: 140,
+            backgroundColor: C.field,
+            color: C.text,
+            padding: 12,
+            borderRadius: 10,
+            borderWidth: 1,
+            borderColor: C.border,
+            fontVariant: ["tabular-nums"],
+          }}
+        />
+
+        {/* result table */}
+        <ScrollView
+          style={{
+            flex: 1,
+            marginTop: 10,
+            backgroundColor: C.card,
+            borderRadius: 10,
+            borderWidth: 1,
+            borderColor: C.border,
+          }}
+        >
+          {rows.map((r) => (
+            <View
+              key={r.line}
+              style={{
+                flexDirection: "row",
+                gap: 8,
+                paddingHorizontal: 10,
+                paddingVertical: 6,
+                borderBottomWidth: 1,
+                borderColor: C.border,
+              }}
+            >
+              <Text style={{ color: C.sub, width: 32 }}>{fmtSmall(r.line)}</Text>
+              {r.ok ? (
+                <>
+                  <Text style={{ color: C.old, flex: 1, fontVariant: ["tabular-nums"] }}>
+                    {fmt(r.oldRial)}
+                  </Text>
+                  <Text style={{ color: C.ok, flex: 1, fontVariant: ["tabular-nums"] }}>
+                    {i18n.qeranDecimal ? (
+                      i18n.fmtDecimal(r.newRial, String(r.qeran).padStart(2, "0"))
+                    ) : (
+                      <>
+                        {fmt(r.newRial)}
+                        <Text style={{ color: C.qeran }}>
+                          {" "}
+                          {t("and")} {fmtSmall(r.qeran)} {t("qeran")}
+                        </Text>
+                      </>
+                    )}
+                  </Text>
+                </>
+              ) : (
+                <Text style={{ color: C.danger, flex: 2 }}>
+                  {errorText(r.code, r.fragment)}
+                </Text>
+              )}
+            </View>
+          ))}
+        </ScrollView>
+
+        {/* export */}
+        <View
+          style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, alignItems: "center", marginTop: 10 }}
+        >
+          <Text style={{ color: C.text, fontWeight: "600" }}>{t("batch_digits")}</Text>
+          <Chip
+            C={C}
+            active={digits === "persian"}
+            label="۱۲۳"
+            onPress={() => setDigits("persian")}
+          />
+          <Chip
+            C={C}
+            active={digits === "arabic"}
+            label="١٢٣"
+            onPress={() => setDigits("arabic")}
+          />
+          <Chip C={C} active={digits === "latin"} label="123" onPress={() => setDigits("latin")} />
+          <Chip C={C} active={false} label="CSV" onPress={() => exportAs("csv")} />
+          <Chip C={C} active={false} label={t("batch_text")} onPress={() => exportAs("text")} />
+        </View>
+
+        <Pressable
+          onPress={onClose}
+          accessibilityRole="button"
+          style={{
+            marginTop: 14,
+            alignSelf: "center",
+            backgroundColor: C.primary,
+            paddingHorizontal: 16,
+            paddingVertical: 8,
+            borderRadius: 10,
+          }}
+        >
+          <Text style={{ color: C.onPrimary, fontWeight: "800" }}>{t("close")}</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,310 @@
+import React, { useMemo, useState } from "react";
+import { Modal, View, Text, Pressable, ScrollView } from "react-native";
+import {
+  breakdownCash,
+  breakdownOld,
+  onlyDigits,
+  parseAmountInUnit,
+  DEFAULT_DENOMINATIONS,
+  QERAN_PER_NEW,
+  type CashBreakdown,
+  type RoundingMode,
+  type UnitBreakdown,
+} from "../engine";
+import AmountInput from "./AmountInput";
+import Chip from "./Chip";
+import type { UiProps } from "./types";
+
+type Props = UiProps & {
+  visible: boolean;
+  result: UnitBreakdown; // the app's current conversion
+  rounding: RoundingMode;
+  denominations: bigint[]; // in qerans
+  onChangeDenominations: (d: bigint[]) => void;
+  onClose: () => void;
+};
+
+type Side = "oldRial" | "newRial";
+
+export default function CashModal({
+  C,
+  i18n,
+  visible,
+  result,
+  rounding,
+  denominations,
+  onChangeDenominations,
+  onClose,
+}: Props) {
+  const { t, fmt } = i18n;
+
+  const newQeranText = (b: { newRial: bigint; qeran: number }) => i18n.fmtNew(b.newRial, b.qeran);
+  const denomLabel = (q: bigint) =>
+    q % QERAN_PER_NEW === 0n ? `${fmt(q / QERAN_PER_NEW)} ${t("new_rial")}` : `${fmt(q)} ${t("qeran")}`;
+  const denomIcon = (q: bigint) => (q >= QERAN_PER_NEW ? "💵" : "🪙");
+
+  const toCash = (b: UnitBreakdown) =>
+    breakdownCash(b.newRial * QERAN_PER_NEW + BigInt(b.qeran), denominations);
+
+  // notes & coins for a new rial + qeran amount, with what can't be paid
+  const cashTable = (b: UnitBreakdown, cash: CashBreakdown) => {
+    const pieces = cash.items.reduce((n, it) => n + it.count, 0n);
+    return (
+      <View
+        style={{
+          marginTop: 8,
+          backgroundColor: C.card,
+          borderRadius: 10,
+          borderWidth: 1,
+          borderColor: C.border,
+        }}
+      >
+        {cash.items.map((it) => (
+          <View
+            key={it.value.toString()}
+            style={{
+              flexDirection: "row",
+              gap: 8,
+              paddingHorizontal: 10,
+              paddingVertical: 6,
+              borderBottomWidth: 1,
+              borderColor: C.border,
+            }}
+          >
+            <Text style={{ color: C.text, flex: 2 }}>
+              {denomIcon(it.value)} {denomLabel(it.value)}
+            </Text>
+            <Text style={{ color: C.ok, flex: 1, fontWeight: "700", fontVariant: ["tabular-nums"] }}>
+              × {fmt(it.count)}
+            </Text>
+          </View>
+        ))}
+        <Text style={{ color: C.sub, padding: 10 }}>
+          {t("cash_pieces", { count: fmt(pieces) })}
+        </Text>
+        {cash.remainder > 0n && (
+          <Text style={{ color: C.danger, paddingHorizontal: 10, paddingBottom: 8 }}>
+            {t("cash_remainder", { amount: fmt(cash.remainder) })}
+          </Text>
+        )}
+        {b.subQeranRem > 0n && (
+          <Text style={{ color: C.old, paddingHorizontal: 10, paddingBottom: 8 }}>
+            {t("cash_sub_qeran", { amount: fmt(b.subQeranRem) })}
+          </Text>
+        )}
+        {!cash.minimal && (
+          <Text style={{ color: C.old, paddingHorizontal: 10, paddingBottom: 8 }}>
+            {t("cash_not_minimal")}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  /* ---------- change due ---------- */
+  const [side, setSide] = useState<Side>("newRial");
+  const [paidInput, setPaidInput] = useState("");
+  const [owedInput, setOwedInput] = useState("");
+  const paid = parseAmountInUnit(paidInput, side);
+  const owed = parseAmountInUnit(owedInput, side);
+  const change =
+    paid.ok && owed.ok && paidInput.trim() && owedInput.trim() ? paid.value - owed.value : null;
+  const changeError = !paid.ok ? paid : !owed.ok ? owed : null;
+
+  // the modal stays mounted and the result changes on every keystroke: search only while it's open
+  const resultCash = useMemo(
+    () => (visible ? toCash(result) : null),
+    [visible, result, denominations]
+  );
+  const changeSplit = useMemo(
+    () => (change !== null && change >= 0n ? breakdownOld(change, rounding) : null),
+    [change, rounding]
+  );
+  const changeCash = useMemo(
+    () => (changeSplit ? toCash(changeSplit) : null),
+    [changeSplit, denominations]
+  );
+
+  /* ---------- denomination table ---------- */
+  const [newDenom, setNewDenom] = useState("");
+  const [newDenomSide, setNewDenomSide] = useState<"newRial" | "qeran">("newRial");
+  const addDenomination = () => {
+    const digits = onlyDigits(newDenom);
+    if (!digits || BigInt(digits) === 0n) return;
+    const q = BigInt(digits) * (newDenomSide === "newRial" ? QERAN_PER_NEW : 1n);
+    if (!denominations.includes(q)) {
+      onChangeDenominations([...denominations, q].sort((a, b) => (a > b ? -1 : a < b ? 1 : 0)));
+    }
+    setNewDenom("");
+  };
+
+  const sectionTitle = (label: string) => (
+    <Text style={{ color: C.text, fontWeight: "700", marginTop: 16 }}>{label}</Text>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={{ flex: 1, backgroundColor: C.bg, padding: 16, direction: i18n.dir }}>
+        <Text
+          style={{
+            color: C.text,
+            fontSize: 18,
+            fontWeight: "800",
+            textAlign: "center",
+            marginBottom: 8,
+          }}
+        >
+          {t("cash")}
+        </Text>
+
+        <ScrollView keyboardShouldPersistTaps="handled">
+          {/* the current result */}
+          <Text style={{ color: C.text, fontWeight: "700" }}>
+            {t("cash_for", { amount: newQeranText(result) })}
+          </Text>
+          {resultCash && cashTable(result, resultCash)}
+
+          {/* change due */}
+          {sectionTitle(t("change"))}
+          <View style={{ flexDirection: "row", gap: 6, marginTop: 8 }}>
+            <Chip
+              C={C}
+              active={side === "oldRial"}
+              label={t("old_rial")}
+              onPress={() => setSide("oldRial")}
+            />
+            <Chip
+              C={C}
+              active={side === "newRial"}
+              label={t("new_rial")}
+              onPress={() => setSide("newRial")}
+            />
+          </View>
+          <View style={{ flexDirection: "row", gap: 8, marginTop: 8 }}>
+            <View style={{ flex: 1 }}>
+              <Text style={{ color: C.sub, marginBottom: 4 }}>{t("change_paid")}</Text>
+              <AmountInput
+                C={C}
+                i18n={i18n}
+                value={paidInput}
+                onChangeText={setPaidInput}
+                accessibilityLabel={t("change_paid")}
+                style={{ fontSize: 18, padding: 10 }}
+              />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={{ color: C.sub, marginBottom: 4 }}>{t("change_owed")}</Text>
+              <AmountInput
+                C={C}
+                i18n={i18n}
+                value={owedInput}
+                onChangeText={setOwedInput}
+                accessibilityLabel={t("change_owed")}
+                style={{ fontSize: 18, padding: 10 }}
+              />
+            </View>
+          </View>
+          {changeError && (
+            <Text style={{ color: C.danger, marginTop: 6 }}>
+              {t(`err_${changeError.code}`, { text: changeError.fragment })}
+            </Text>
+          )}
+          {change !== null && change < 0n && (
+            <Text style={{ color: C.danger, marginTop: 6, fontWeight: "700" }}>
+              {t("change_short", { amount: `${fmt(-change)} ${t("old_rial")}` })}
+            </Text>
+          )}
+          {changeSplit && changeCash && (
+            <>
+              <Text style={{ color: C.ok, marginTop: 6, fontWeight: "700" }}>
+                {t("change_result", { amount: newQeranText(changeSplit) })}
+              </Text>
+              <Text style={{ color: C.sub }}>
+                = {fmt(changeSplit.oldRial)} {t("old_rial")}
+              </Text>
+              {cashTable(changeSplit, changeCash)}
+            </>
+          )}
+
+          {/* editable denomination table */}
+          {sectionTitle(t("denominations"))}
+          <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, marginTop: 8 }}>
+            {denominations.map((q) => (
+              <Pressable
+                key={q.toString()}
+                onPress={() => onChangeDenominations(denominations.filter((d) => d !== q))}
+                accessibilityRole="button"
+                accessibilityLabel={`${t("a11y_remove")} ${denomLabel(q)}`}
+                style={{
+                  paddingVertical: 6,
+                  paddingHorizontal: 10,
+                  borderRadius: 8,
+                  backgroundColor: C.card,
+                  borderWidth: 1,
+                  borderColor: C.border,
+                }}
+              >
+                <Text style={{ color: C.text }}>
+                  {denomIcon(q)} {denomLabel(q)} <Text style={{ color: C.danger }}>✕</Text>
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <View
+            style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, marginTop: 8, alignItems: "center" }}
+          >
+            <AmountInput
+              C={C}
+              i18n={i18n}
+              value={newDenom}
+              onChangeText={setNewDenom}
+              digitsOnly
+              accessibilityLabel={t("denominations_add")}
+              onSubmitEditing={addDenomination}
+              style={{ minWidth: 90, fontSize: 16, padding: 8 }}
+            />
+            <Chip
+              C={C}
+              active={newDenomSide === "newRial"}
+              label={t("new_rial")}
+              onPress={() => setNewDenomSide("newRial")}
+            />
+            <Chip
+              C={C}
+              active={newDenomSide === "qeran"}
+              label={t("qeran")}
+              onPress={() => setNewDenomSide("qeran")}
+            />
+            <Chip
+              C={C}
+              active={false}
+              label={`+ ${t("denominations_add")}`}
+              onPress={addDenomination}
+            />
+            <Chip
+              C={C}
+              active={false}
+              label={t("denominations_reset")}
+              onPress={() => onChangeDenominations(DEFAULT_DENOMINATIONS)}
+            />
+          </View>
+        </ScrollView>
+
+        <Pressable
+          onPress={onClose}
+          accessibilityRole="button"
+          style={{
+            marginTop: 14,
+            alignSelf: "center",
+            backgroundColor: C.primary,
+            paddingHorizontal: 16,
+            paddingVertical: 8,
+            borderRadius: 10,
+          }}
+        >
+          <Text style={{ color: C.onPrimary, fontWeight: "800" }}>{t("close")}</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,34 @@
+import React from "react";
+import { Pressable, Text } from "react-native";
+import type { Palette } from "./types";
+
+type Props = {
+  C: Palette;
+  active: boolean;
+  label: string;
+  onPress: () => void;
+  /** Read out instead of `label`, e.g. a language's own name for its short code. */
+  accessibilityLabel?: string;
+};
+
+/** A small option or action button; `active` marks the selected one of a group. */
+export default function Chip({ C, active, label, onPress, accessibilityLabel }: Props) {
+  return (
+    <Pressable
+      onPress={onPress}
+      accessibilityLabel={accessibilityLabel}
+      accessibilityRole="button"
+      accessibilityState={{ selected: active }}
+      style={{
+        paddingVertical: 6,
+        paddingHorizontal: 10,
+        borderRadius: 8,
+        backgroundColor: active ? C.primary : C.card,
+        borderWidth: 1,
+        borderColor: C.border,
+      }}
+    >
+      <Text style={{ color: active ? C.onPrimary : C.text, fontWeight: "700" }}>{label}</Text>
+    </Pressable>
+  );
+}
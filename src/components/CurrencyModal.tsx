@@ -0,0 +1,379 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Modal, View, Text, TextInput, Pressable, ScrollView, Share } from "react-native";
+import {
+  breakdownOld,
+  cleanRate,
+  foreignToOld,
+  importRates,
+  isIsoDate,
+  mapDigits,
+  oldToForeign,
+  oldToUnitDecimal,
+  parseAmountInUnit,
+  parseAmountText,
+  parseRate,
+  rateAgeDays,
+  rational,
+  rationalToDecimal,
+  ratesToCsv,
+  ratesToJson,
+  roundRational,
+  todayIso,
+  CURRENCIES,
+  FOREIGN_DECIMALS,
+  type CurrencyCode,
+  type CurrencyRate,
+  type Rational,
+  type RoundingMode,
+  type Unit,
+} from "../engine";
+import { removeRate, upsertRate } from "../storage/rates";
+import AmountInput from "./AmountInput";
+import Chip from "./Chip";
+import type { UiProps } from "./types";
+
+type Props = UiProps & {
+  visible: boolean;
+  rates: CurrencyRate[];
+  rounding: RoundingMode;
+  onChangeRates: (rates: CurrencyRate[]) => void;
+  onClose: () => void;
+};
+
+type From = CurrencyCode | Unit;
+const FROM_UNITS: Unit[] = ["oldRial", "oldToman", "newRial", "newToman"];
+
+// older rates are shown as a warning
+const STALE_DAYS = 7;
+
+type Draft = { rate: string; date: string; source: string };
+
+export default function CurrencyModal({
+  C,
+  i18n,
+  visible,
+  rates,
+  rounding,
+  onChangeRates,
+  onClose,
+}: Props) {
+  const { t, fmt, fmtSmall } = i18n;
+  const [from, setFrom] = useState<From>("USD");
+  const [amountInput, setAmountInput] = useState("");
+  const [importText, setImportText] = useState("");
+  const [importMessage, setImportMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const fieldStyle = {
+    backgroundColor: C.field,
+    color: C.text,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: C.border,
+  };
+
+  const decimalText = (d: { int: bigint; frac: string }) => i18n.fmtDecimal(d.int, d.frac);
+
+  /* ---------- rates being edited ---------- */
+  // the fields as typed; only complete, valid rows reach `rates`
+  const [drafts, setDrafts] = useState<Record<CurrencyCode, Draft>>();
+  const draftsFrom = (list: CurrencyRate[], fallback?: Record<CurrencyCode, Draft>) =>
+    Object.fromEntries(
+      CURRENCIES.map((code) => {
+        const r = list.find((x) => x.code === code);
+        const [int, frac] = r ? r.rate.split(".") : [];
+        const draft: Draft = r
+          ? {
+              rate: i18n.group(int) + (frac ? i18n.point + mapDigits(frac, i18n.number.digits) : ""),
+              date: r.date,
+              source: r.source,
+            }
+          : (fallback?.[code] ?? { rate: "", date: todayIso(), source: "" });
+        return [code, draft];
+      })
+    ) as Record<CurrencyCode, Draft>;
+  useEffect(() => {
+    if (!visible) return;
+    setDrafts(draftsFrom(rates));
+    setImportMessage(null);
+  }, [visible]);
+
+  const editDraft = (code: CurrencyCode, patch: Partial<Draft>) => {
+    if (!drafts) return;
+    const d = { ...drafts[code], ...patch };
+    setDrafts({ ...drafts, [code]: d });
+    if (!d.rate.trim()) onChangeRates(removeRate(rates, code));
+    else if (parseRate(d.rate) && isIsoDate(d.date.trim())) {
+      onChangeRates(
+        upsertRate(rates, { code, rate: cleanRate(d.rate), date: d.date.trim(), source: d.source.trim() })
+      );
+    }
+  };
+
+  const rateOf = (code: CurrencyCode): Rational | null => {
+    const r = rates.find((x) => x.code === code);
+    return r ? parseRate(r.rate) : null;
+  };
+
+  /* ---------- conversion ---------- */
+  // the amount in old rials, exactly, or why it can't be had
+  const amount = useMemo((): { old: Rational } | { error: string } | null => {
+    if (!amountInput.trim()) return null;
+    if (FROM_UNITS.includes(from as Unit)) {
+      const p = parseAmountInUnit(amountInput, from as Unit);
+      return p.ok ? { old: rational(p.value) } : { error: t(`err_${p.code}`, { text: p.fragment }) };
+    }
+    const rate = rateOf(from as CurrencyCode);
+    if (!rate) return { error: t("currency_no_rate", { code: from }) };
+    const p = parseAmountText(amountInput, { decimals: FOREIGN_DECIMALS });
+    if (!p.ok) return { error: t(`err_${p.code}`, { text: p.fragment }) };
+    return { old: foreignToOld(rational(p.value, 10n ** BigInt(FOREIGN_DECIMALS)), rate) };
+  }, [amountInput, from, rates, i18n]);
+
+  const resultRows = (old: Rational) => {
+    const oldRial = roundRational(old, rounding);
+    const approx = old.den !== 1n ? "≈ " : "";
+    const b = breakdownOld(oldRial, rounding);
+    const newApprox = approx || !b.exact ? "≈ " : "";
+    const rows: { key: string; label: string; value: string }[] = [
+      { key: "oldRial", label: t("unit_oldRial"), value: approx + fmt(oldRial) },
+      {
+        key: "oldToman",
+        label: t("unit_oldToman"),
+        value: approx + decimalText(oldToUnitDecimal(oldRial, "oldToman")),
+      },
+      {
+        key: "newRial",
+        label: t("unit_newRial"),
+        value:
+          newApprox +
+          (i18n.qeranDecimal
+            ? i18n.fmtDecimal(b.newRial, String(b.qeran).padStart(2, "0"))
+            : `${fmt(b.newRial)} ${t("and")} ${fmtSmall(b.qeran)} ${t("qeran")}`),
+      },
+    ];
+    for (const code of CURRENCIES) {
+      const rate = rateOf(code);
+      if (!rate || code === from) continue;
+      const d = rationalToDecimal(oldToForeign(old, rate), FOREIGN_DECIMALS, rounding);
+      rows.push({
+        key: code,
+        label: `${code} · ${t(`currency_${code}`)}`,
+        value: (d.exact ? "" : "≈ ") + decimalText(d),
+      });
+    }
+    return rows.filter((r) => r.key !== from);
+  };
+
+  /* ---------- import / export ---------- */
+  const exportAs = (format: "json" | "csv") =>
+    Share.share({
+      message: format === "json" ? ratesToJson(rates) : ratesToCsv(rates),
+      title: t("rates"),
+    });
+
+  const runImport = () => {
+    const r = importRates(importText);
+    if (!r.ok) {
+      setImportMessage({
+        ok: false,
+        text: t("rates_import_error", { line: fmtSmall(r.line), text: r.fragment }),
+      });
+      return;
+    }
+    onChangeRates(r.rates.reduce(upsertRate, rates));
+    setDrafts(draftsFrom(r.rates, drafts));
+    setImportText("");
+    setImportMessage({ ok: true, text: t("rates_imported", { count: fmtSmall(r.rates.length) }) });
+  };
+
+  const ageText = (date: string) => {
+    const days = rateAgeDays(date.trim());
+    if (days === null) return { text: t("rate_bad_date"), color: C.danger };
+    return {
+      text: days <= 0 ? t("rate_age_today") : t("rate_age_days", { days: fmtSmall(days) }),
+      color: days > STALE_DAYS ? C.old : C.sub,
+    };
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={{ flex: 1, backgroundColor: C.bg, padding: 16, direction: i18n.dir }}>
+        <Text
+          style={{
+            color: C.text,
+            fontSize: 18,
+            fontWeight: "800",
+            textAlign: "center",
+            marginBottom: 8,
+          }}
+        >
+          {t("currency")}
+        </Text>
+
+        <ScrollView keyboardShouldPersistTaps="handled">
+          {/* amount */}
+          <Text style={{ color: C.text, fontWeight: "600" }}>{t("currency_from")}</Text>
+          <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, marginTop: 6 }}>
+            {CURRENCIES.map((code) => (
+              <Chip key={code} C={C} active={from === code} label={code} onPress={() => setFrom(code)} />
+            ))}
+            {FROM_UNITS.map((u) => (
+              <Chip
+                key={u}
+                C={C}
+                active={from === u}
+                label={t(`unit_${u}`)}
+                onPress={() => setFrom(u)}
+              />
+            ))}
+          </View>
+          <AmountInput
+            C={C}
+            i18n={i18n}
+            value={amountInput}
+            onChangeText={setAmountInput}
+            inputMode="decimal"
+            placeholder={t("currency_amount")}
+            accessibilityLabel={t("currency_amount")}
+            style={{ marginTop: 8 }}
+          />
+          {amount && "error" in amount && (
+            <Text style={{ color: C.danger, marginTop: 6 }}>{amount.error}</Text>
+          )}
+          {amount && "old" in amount && (
+            <View
+              style={{
+                marginTop: 8,
+                backgroundColor: C.card,
+                borderRadius: 10,
+                borderWidth: 1,
+                borderColor: C.border,
+              }}
+            >
+              {resultRows(amount.old).map((r) => (
+                <View
+                  key={r.key}
+                  style={{
+                    flexDirection: "row",
+                    gap: 8,
+                    paddingHorizontal: 10,
+                    paddingVertical: 6,
+                    borderBottomWidth: 1,
+                    borderColor: C.border,
+                  }}
+                >
+                  <Text style={{ color: C.sub, flex: 1 }}>{r.label}</Text>
+                  <Text
+                    style={{ color: C.ok, flex: 1, fontWeight: "700", fontVariant: ["tabular-nums"] }}
+                  >
+                    {r.value}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* rates table */}
+          <Text style={{ color: C.text, fontWeight: "700", marginTop: 16 }}>{t("rates")}</Text>
+          {drafts &&
+            CURRENCIES.map((code) => {
+              const d = drafts[code];
+              const badRate = !!d.rate.trim() && !parseRate(d.rate);
+              const age = ageText(d.date);
+              return (
+                <View
+                  key={code}
+                  style={{
+                    marginTop: 8,
+                    padding: 10,
+                    gap: 6,
+                    backgroundColor: C.card,
+                    borderRadius: 10,
+                    borderWidth: 1,
+                    borderColor: C.border,
+                  }}
+                >
+                  <Text style={{ color: C.text, fontWeight: "700" }}>
+                    {code} · {t(`currency_${code}`)}
+                  </Text>
+                  <AmountInput
+                    C={C}
+                    i18n={i18n}
+                    value={d.rate}
+                    onChangeText={(rate) => editDraft(code, { rate })}
+                    inputMode="decimal"
+                    placeholder={t("rates")}
+                    accessibilityLabel={`${code} ${t("rates")}`}
+                    style={{ fontSize: 16, padding: 8, borderColor: badRate ? C.danger : C.border }}
+                  />
+                  {badRate && <Text style={{ color: C.danger }}>{t("rate_bad")}</Text>}
+                  <View style={{ flexDirection: "row", gap: 6 }}>
+                    <TextInput
+                      value={d.date}
+                      onChangeText={(date) => editDraft(code, { date })}
+                      placeholder={t("rate_date")}
+                      placeholderTextColor={C.sub}
+                      accessibilityLabel={`${code} ${t("rate_date")}`}
+                      style={[fieldStyle, { width: 120, textAlign: "center" }]}
+                    />
+                    <TextInput
+                      value={d.source}
+                      onChangeText={(source) => editDraft(code, { source })}
+                      placeholder={t("rate_source")}
+                      placeholderTextColor={C.sub}
+                      accessibilityLabel={`${code} ${t("rate_source")}`}
+                      style={[fieldStyle, { flex: 1 }]}
+                    />
+                  </View>
+                  {!!d.rate.trim() && <Text style={{ color: age.color }}>{age.text}</Text>}
+                </View>
+              );
+            })}
+
+          {/* import / export */}
+          <View
+            style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, alignItems: "center", marginTop: 12 }}
+          >
+            <Text style={{ color: C.text, fontWeight: "600" }}>{t("rates_export")}</Text>
+            <Chip C={C} active={false} label="JSON" onPress={() => exportAs("json")} />
+            <Chip C={C} active={false} label="CSV" onPress={() => exportAs("csv")} />
+          </View>
+          <TextInput
+            multiline
+            value={importText}
+            onChangeText={setImportText}
+            placeholder={t("rates_import_placeholder")}
+            placeholderTextColor={C.sub}
+            textAlignVertical="top"
+            style={[fieldStyle, { marginTop: 8, height: 90, padding: 10 }]}
+          />
+          <View style={{ flexDirection: "row", gap: 6, alignItems: "center", marginTop: 6 }}>
+            <Chip C={C} active={false} label={t("rates_import")} onPress={runImport} />
+            {importMessage && (
+              <Text style={{ color: importMessage.ok ? C.ok : C.danger, flex: 1 }}>
+                {importMessage.text}
+              </Text>
+            )}
+          </View>
+        </ScrollView>
+
+        <Pressable
+          onPress={onClose}
+          accessibilityRole="button"
+          style={{
+            marginTop: 14,
+            alignSelf: "center",
+            backgroundColor: C.primary,
+            paddingHorizontal: 16,
+            paddingVertical: 8,
+            borderRadius: 10,
+          }}
+        >
+          <Text style={{ color: C.onPrimary, fontWeight: "800" }}>{t("close")}</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
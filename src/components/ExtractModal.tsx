@@ -0,0 +1,120 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Modal, View, Text, TextInput, Pressable, ScrollView } from "react-native";
+import { findAmounts, type AmountCandidate } from "../engine";
+import type { UiProps } from "./types";
+
+type Props = UiProps & {
+  visible: boolean;
+  initialText: string; // what was pasted into the amount field, if anything
+  onClose: () => void;
+  onPick: (c: AmountCandidate) => void;
+};
+
+// characters of context shown on each side of a found amount
+const CONTEXT = 24;
+
+export default function ExtractModal({ C, i18n, visible, initialText, onClose, onPick }: Props) {
+  const { t, fmt } = i18n;
+  const [text, setText] = useState(initialText);
+  useEffect(() => {
+    if (visible) setText(initialText);
+  }, [visible, initialText]);
+
+  const candidates = useMemo(() => findAmounts(text), [text]);
+  const snippet = (from: number, to: number) => text.slice(from, to).replace(/\s+/g, " ");
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={{ flex: 1, backgroundColor: C.bg, padding: 16, direction: i18n.dir }}>
+        <Text
+          style={{
+            color: C.text,
+            fontSize: 18,
+            fontWeight: "800",
+            textAlign: "center",
+            marginBottom: 8,
+          }}
+        >
+          {t("extract")}
+        </Text>
+
+        <TextInput
+          multiline
+          value={text}
+          onChangeText={setText}
+          placeholder={t("extract_placeholder")}
+          placeholderTextColor={C.sub}
+          textAlignVertical="top"
+          style={{
+            height: 140,
+            backgroundColor: C.field,
+            color: C.text,
+            padding: 12,
+            borderRadius: 10,
+            borderWidth: 1,
+            borderColor: C.border,
+          }}
+        />
+
+        {/* candidates, in text order */}
+        <ScrollView
+          style={{
+            flex: 1,
+            marginTop: 10,
+            backgroundColor: C.card,
+            borderRadius: 10,
+            borderWidth: 1,
+            borderColor: C.border,
+          }}
+        >
+          {text.trim() !== "" && candidates.length === 0 && (
+            <Text style={{ color: C.sub, textAlign: "center", marginVertical: 16 }}>
+              {t("extract_none")}
+            </Text>
+          )}
+          {candidates.map((c) => (
+            <Pressable
+              key={c.start}
+              onPress={() => onPick(c)}
+              accessibilityRole="button"
+              accessibilityLabel={`${c.text}, ${i18n.say(c.oldRial)} ${t("old_rial")}`}
+              style={{
+                paddingHorizontal: 10,
+                paddingVertical: 8,
+                borderBottomWidth: 1,
+                borderColor: C.border,
+              }}
+            >
+              <Text style={{ color: C.sub }} numberOfLines={2}>
+                {c.start > CONTEXT ? "…" : ""}
+                {snippet(Math.max(0, c.start - CONTEXT), c.start)}
+                <Text style={{ color: C.text, fontWeight: "800" }}>{c.text}</Text>
+                {snippet(c.end, c.end + CONTEXT)}
+                {c.end + CONTEXT < text.length ? "…" : ""}
+              </Text>
+              <Text style={{ color: C.old, marginTop: 2, fontVariant: ["tabular-nums"] }}>
+                = {fmt(c.oldRial)} {t("old_rial")}
+                {c.unit === null ? ` (${t("extract_no_unit")})` : ""}
+              </Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+
+        <Pressable
+          onPress={onClose}
+          accessibilityRole="button"
+          style={{
+            marginTop: 14,
+            alignSelf: "center",
+            backgroundColor: C.primary,
+            paddingHorizontal: 16,
+            paddingVertical: 8,
+            borderRadius: 10,
+          }}
+        >
+          <Text style={{ color: C.onPrimary, fontWeight: "800" }}>{t("close")}</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,248 @@
+import React, { useState } from "react";
+import { Modal, View, Text, TextInput, Pressable, ScrollView } from "react-native";
+import { searchHistory, type HistoryEntry } from "../storage/history";
+import type { UiProps } from "./types";
+
+type Props = UiProps & {
+  visible: boolean;
+  entries: HistoryEntry[];
+  onClose: () => void;
+  onSelect: (e: HistoryEntry) => void;
+  onUpdate: (id: string, patch: { label?: string; favorite?: boolean }) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+};
+
+export default function HistoryModal({
+  C,
+  i18n,
+  visible,
+  entries,
+  onClose,
+  onSelect,
+  onUpdate,
+  onRemove,
+  onClear,
+}: Props) {
+  const { t, fmt, fmtSmall, say } = i18n;
+  const [query, setQuery] = useState("");
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [labelDraft, setLabelDraft] = useState("");
+
+  const shown = searchHistory(entries, query, favoritesOnly);
+  const when = (ts: number) =>
+    new Date(ts).toLocaleString(i18n.dateLocale, {
+      dateStyle: "short",
+      timeStyle: "short",
+    });
+
+  const commitLabel = (id: string) => {
+    onUpdate(id, { label: labelDraft.trim() });
+    setEditingId(null);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: C.overlay,
+          justifyContent: "flex-end",
+          direction: i18n.dir,
+        }}
+      >
+        <View
+          style={{
+            backgroundColor: C.card,
+            borderTopLeftRadius: 16,
+            borderTopRightRadius: 16,
+            padding: 16,
+            borderTopWidth: 1,
+            borderColor: C.border,
+            maxHeight: "85%",
+          }}
+        >
+          <Text
+            style={{
+              color: C.text,
+              fontSize: 18,
+              fontWeight: "800",
+              textAlign: "center",
+              marginBottom: 8,
+            }}
+          >
+            {t("history")}
+          </Text>
+
+          {/* search + favourites filter */}
+          <View style={{ flexDirection: "row", gap: 8, alignItems: "center" }}>
+            <TextInput
+              placeholder={t("history_search")}
+              placeholderTextColor={C.sub}
+              value={query}
+              onChangeText={setQuery}
+              style={{
+                flex: 1,
+                backgroundColor: C.field,
+                color: C.text,
+                paddingHorizontal: 12,
+                paddingVertical: 8,
+                borderRadius: 10,
+                borderWidth: 1,
+                borderColor: C.border,
+              }}
+            />
+            <Pressable
+              onPress={() => setFavoritesOnly((f) => !f)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: favoritesOnly }}
+              style={{
+                paddingVertical: 6,
+                paddingHorizontal: 10,
+                borderRadius: 8,
+                backgroundColor: favoritesOnly ? C.primary : C.card,
+                borderWidth: 1,
+                borderColor: C.border,
+              }}
+            >
+              <Text style={{ color: favoritesOnly ? C.onPrimary : C.text, fontWeight: "700" }}>
+                ★ {t("history_favorites")}
+              </Text>
+            </Pressable>
+          </View>
+
+          <ScrollView style={{ marginTop: 10 }} keyboardShouldPersistTaps="handled">
+            {shown.length === 0 && (
+              <Text style={{ color: C.sub, textAlign: "center", marginVertical: 16 }}>
+                {t("history_empty")}
+              </Text>
+            )}
+            {shown.map((e) => (
+              <Pressable
+                key={e.id}
+                onPress={() => onSelect(e)}
+                accessibilityRole="button"
+                style={{
+                  borderBottomWidth: 1,
+                  borderColor: C.border,
+                  paddingVertical: 10,
+                  flexDirection: "row",
+                  alignItems: "center",
+                  gap: 8,
+                }}
+              >
+                <Pressable
+                  onPress={() => onUpdate(e.id, { favorite: !e.favorite })}
+                  hitSlop={8}
+                  accessibilityRole="button"
+                  accessibilityLabel={t("a11y_favorite")}
+                  accessibilityState={{ selected: e.favorite }}
+                >
+                  <Text style={{ color: e.favorite ? C.old : C.sub, fontSize: 20 }}>
+                    {e.favorite ? "★" : "☆"}
+                  </Text>
+                </Pressable>
+
+                <View style={{ flex: 1 }}>
+                  <Text
+                    style={{ color: C.text, fontWeight: "700" }}
+                    accessibilityLabel={`${say(BigInt(e.oldRial))} ${t("old_rial")}, ${say(
+                      BigInt(e.newRial)
+                    )} ${t("new_rial")} ${t("and")} ${say(e.qeran)} ${t("qeran")}`}
+                  >
+                    <Text style={{ color: C.old }}>{fmt(BigInt(e.oldRial))}</Text>{" "}
+                    {t("old_rial")} {e.direction === "oldToNew" ? "→" : "←"}{" "}
+                    {i18n.qeranDecimal ? (
+                      <>
+                        <Text style={{ color: C.ok }}>
+                          {i18n.fmtDecimal(BigInt(e.newRial), String(e.qeran).padStart(2, "0"))}
+                        </Text>{" "}
+                        {t("new_rial")}
+                      </>
+                    ) : (
+                      <>
+                        <Text style={{ color: C.ok }}>{fmt(BigInt(e.newRial))}</Text>{" "}
+                        {t("new_rial")} {t("and")}{" "}
+                        <Text style={{ color: C.qeran }}>{fmtSmall(e.qeran)}</Text> {t("qeran")}
+                      </>
+                    )}
+                  </Text>
+                  {editingId === e.id ? (
+                    <TextInput
+                      autoFocus
+                      value={labelDraft}
+                      onChangeText={setLabelDraft}
+                      onSubmitEditing={() => commitLabel(e.id)}
+                      onBlur={() => commitLabel(e.id)}
+                      placeholder={t("history_label")}
+                      placeholderTextColor={C.sub}
+                      style={{
+                        color: C.text,
+                        borderBottomWidth: 1,
+                        borderColor: C.primary,
+                        paddingVertical: 2,
+                        marginTop: 4,
+                      }}
+                    />
+                  ) : (
+                    <Pressable
+                      onPress={() => {
+                        setEditingId(e.id);
+                        setLabelDraft(e.label);
+                      }}
+                      accessibilityRole="button"
+                      accessibilityLabel={e.label || t("history_label")}
+                    >
+                      <Text style={{ color: C.sub, marginTop: 4 }}>
+                        {e.label ? `🏷 ${e.label}` : `✎ ${t("history_label")}`} · {when(e.createdAt)}
+                      </Text>
+                    </Pressable>
+                  )}
+                </View>
+
+                <Pressable
+                  onPress={() => onRemove(e.id)}
+                  hitSlop={8}
+                  accessibilityRole="button"
+                  accessibilityLabel={t("a11y_remove")}
+                >
+                  <Text style={{ color: C.danger, fontSize: 16 }}>✕</Text>
+                </Pressable>
+              </Pressable>
+            ))}
+          </ScrollView>
+
+          <View style={{ flexDirection: "row", justifyContent: "center", gap: 10, marginTop: 14 }}>
+            <Pressable
+              onPress={onClear}
+              accessibilityRole="button"
+              style={{
+                backgroundColor: C.card,
+                borderWidth: 1,
+                borderColor: C.border,
+                paddingHorizontal: 16,
+                paddingVertical: 8,
+                borderRadius: 10,
+              }}
+            >
+              <Text style={{ color: C.text, fontWeight: "700" }}>{t("history_clear")}</Text>
+            </Pressable>
+            <Pressable
+              onPress={onClose}
+              accessibilityRole="button"
+              style={{
+                backgroundColor: C.primary,
+                paddingHorizontal: 16,
+                paddingVertical: 8,
+                borderRadius: 10,
+              }}
+            >
+              <Text style={{ color: C.onPrimary, fontWeight: "800" }}>{t("close")}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,345 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Modal, View, Text, TextInput, Pressable, ScrollView, Share } from "react-native";
+import {
+  breakdownOld,
+  computeInvoice,
+  emptyInvoiceLine,
+  invoiceToCsv,
+  invoiceToText,
+  newInvoice,
+  ROUNDING_MODES,
+  type Invoice,
+  type InvoiceLine,
+} from "../engine";
+import { removeInvoice, upsertInvoice } from "../storage/invoices";
+import AmountInput from "./AmountInput";
+import Chip from "./Chip";
+import type { UiProps } from "./types";
+
+type Props = UiProps & {
+  visible: boolean;
+  invoices: Invoice[];
+  onChangeInvoices: (invoices: Invoice[]) => void;
+  onClose: () => void;
+};
+
+export default function InvoiceModal({
+  C,
+  i18n,
+  visible,
+  invoices,
+  onChangeInvoices,
+  onClose,
+}: Props) {
+  const { t, fmt, fmtSmall } = i18n;
+  // a new invoice is only saved once something is typed into it
+  const [current, setCurrent] = useState<Invoice>(() => invoices[0] ?? newInvoice());
+  useEffect(() => {
+    if (visible) setCurrent(invoices[0] ?? newInvoice());
+  }, [visible]);
+
+  const totals = useMemo(() => computeInvoice(current), [current]);
+
+  const edit = (patch: Partial<Invoice>) => {
+    const next = { ...current, ...patch };
+    setCurrent(next);
+    onChangeInvoices(upsertInvoice(invoices, next));
+  };
+  const editLine = (index: number, patch: Partial<InvoiceLine>) =>
+    edit({ lines: current.lines.map((l, i) => (i === index ? { ...l, ...patch } : l)) });
+
+  const deleteCurrent = () => {
+    const rest = removeInvoice(invoices, current.id);
+    onChangeInvoices(rest);
+    setCurrent(rest[0] ?? newInvoice());
+  };
+
+  const exportAs = (format: "csv" | "text") =>
+    Share.share({
+      message:
+        format === "csv"
+          ? invoiceToCsv(current, totals)
+          : invoiceToText(current, totals, i18n.words, t, i18n.number),
+      title: current.title || t("invoice"),
+    });
+
+  const fieldStyle = {
+    backgroundColor: C.field,
+    color: C.text,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: C.border,
+  };
+
+  const invoiceLabel = (inv: Invoice) =>
+    inv.title.trim() ||
+    `${t("invoice_untitled")} · ${new Date(inv.createdAt).toLocaleDateString(i18n.dateLocale)}`;
+
+  // whole qerans, so the new-rial side is always exact
+  const newText = (oldRial: bigint) => {
+    const b = breakdownOld(oldRial);
+    return i18n.fmtNew(b.newRial, b.qeran);
+  };
+
+  const totalRow = (label: string, oldRial: bigint, strong = false) => (
+    <View
+      style={{
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderBottomWidth: 1,
+        borderColor: C.border,
+      }}
+    >
+      <Text style={{ color: strong ? C.text : C.sub, fontWeight: strong ? "800" : "600" }}>
+        {label}
+      </Text>
+      <Text style={{ color: C.old, fontVariant: ["tabular-nums"] }}>
+        {fmt(oldRial)} {t("old_rial")}
+      </Text>
+      <Text style={{ color: C.ok, fontVariant: ["tabular-nums"], fontWeight: strong ? "800" : "400" }}>
+        {newText(oldRial)}
+      </Text>
+    </View>
+  );
+
+  const err = totals.error;
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={{ flex: 1, backgroundColor: C.bg, padding: 16, direction: i18n.dir }}>
+        <Text
+          style={{
+            color: C.text,
+            fontSize: 18,
+            fontWeight: "800",
+            textAlign: "center",
+            marginBottom: 8,
+          }}
+        >
+          {t("invoice")}
+        </Text>
+
+        {/* saved invoices */}
+        <ScrollView horizontal style={{ flexGrow: 0 }} contentContainerStyle={{ gap: 6 }}>
+          <Chip
+            C={C}
+            active={!invoices.some((i) => i.id === current.id)}
+            label={`+ ${t("invoice_new")}`}
+            onPress={() => setCurrent(newInvoice())}
+          />
+          {invoices.map((inv) => (
+            <Chip
+              key={inv.id}
+              C={C}
+              active={inv.id === current.id}
+              label={invoiceLabel(inv)}
+              onPress={() => setCurrent(inv)}
+            />
+          ))}
+        </ScrollView>
+
+        <ScrollView style={{ flex: 1, marginTop: 10 }} keyboardShouldPersistTaps="handled">
+          <TextInput
+            value={current.title}
+            onChangeText={(title) => edit({ title })}
+            placeholder={t("invoice_title")}
+            placeholderTextColor={C.sub}
+            style={[fieldStyle, { fontWeight: "700" }]}
+          />
+
+          {/* line items */}
+          {current.lines.map((line, i) => {
+            const lt = totals.lines[i];
+            return (
+              <View
+                key={i}
+                style={{
+                  marginTop: 8,
+                  padding: 10,
+                  gap: 6,
+                  backgroundColor: C.card,
+                  borderRadius: 10,
+                  borderWidth: 1,
+                  borderColor: lt.ok ? C.border : C.danger,
+                }}
+              >
+                <View style={{ flexDirection: "row", gap: 6, alignItems: "center" }}>
+                  <Text style={{ color: C.sub }}>{fmtSmall(i + 1)}</Text>
+                  <TextInput
+                    value={line.description}
+                    onChangeText={(description) => editLine(i, { description })}
+                    placeholder={t("invoice_item")}
+                    placeholderTextColor={C.sub}
+                    style={[fieldStyle, { flex: 1 }]}
+                  />
+                  <Pressable
+                    onPress={() => edit({ lines: current.lines.filter((_, j) => j !== i) })}
+                    accessibilityRole="button"
+                    accessibilityLabel={`${t("a11y_remove")} ${fmtSmall(i + 1)}`}
+                    hitSlop={8}
+                  >
+                    <Text style={{ color: C.danger, fontSize: 16 }}>✕</Text>
+                  </Pressable>
+                </View>
+                <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, alignItems: "center" }}>
+                  <TextInput
+                    value={line.quantity}
+                    onChangeText={(quantity) => editLine(i, { quantity })}
+                    inputMode="decimal"
+                    placeholder={t("invoice_qty")}
+                    placeholderTextColor={C.sub}
+                    accessibilityLabel={t("invoice_qty")}
+                    style={[fieldStyle, { width: 60, textAlign: "center" }]}
+                  />
+                  <Text style={{ color: C.sub }}>×</Text>
+                  <AmountInput
+                    C={C}
+                    i18n={i18n}
+                    value={line.unitPrice}
+                    onChangeText={(unitPrice) => editLine(i, { unitPrice })}
+                    inputMode="decimal"
+                    placeholder={t("invoice_price")}
+                    accessibilityLabel={t("invoice_price")}
+                    style={{ flex: 1, minWidth: 110, fontSize: 16, padding: 8 }}
+                  />
+                  <Chip
+                    C={C}
+                    active={line.priceUnit === "oldRial"}
+                    label={t("old_rial")}
+                    onPress={() => editLine(i, { priceUnit: "oldRial" })}
+                  />
+                  <Chip
+                    C={C}
+                    active={line.priceUnit === "newRial"}
+                    label={t("new_rial")}
+                    onPress={() => editLine(i, { priceUnit: "newRial" })}
+                  />
+                </View>
+                <View style={{ flexDirection: "row", gap: 6, alignItems: "center" }}>
+                  <Text style={{ color: C.sub }}>{t("invoice_discount")}</Text>
+                  <TextInput
+                    value={line.discount}
+                    onChangeText={(discount) => editLine(i, { discount })}
+                    inputMode="decimal"
+                    placeholder="0"
+                    placeholderTextColor={C.sub}
+                    accessibilityLabel={t("invoice_discount")}
+                    style={[fieldStyle, { width: 60, textAlign: "center" }]}
+                  />
+                  {lt.ok && (
+                    <Text style={{ color: C.ok, flex: 1, fontVariant: ["tabular-nums"] }}>
+                      {fmt(lt.net)} · {newText(lt.net)}
+                    </Text>
+                  )}
+                </View>
+              </View>
+            );
+          })}
+          <View style={{ flexDirection: "row", marginTop: 8 }}>
+            <Chip
+              C={C}
+              active={false}
+              label={`+ ${t("invoice_add_line")}`}
+              onPress={() =>
+                edit({
+                  lines: [...current.lines, emptyInvoiceLine(current.lines.at(-1)?.priceUnit)],
+                })
+              }
+            />
+          </View>
+
+          {/* VAT & rounding */}
+          <View
+            style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, alignItems: "center", marginTop: 12 }}
+          >
+            <Text style={{ color: C.text, fontWeight: "600" }}>{t("invoice_vat")}</Text>
+            <TextInput
+              value={current.vat}
+              onChangeText={(vat) => edit({ vat })}
+              inputMode="decimal"
+              accessibilityLabel={t("invoice_vat")}
+              style={[fieldStyle, { width: 60, textAlign: "center" }]}
+            />
+          </View>
+          <View
+            style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, alignItems: "center", marginTop: 8 }}
+          >
+            <Text style={{ color: C.text, fontWeight: "600" }}>{t("rounding")}</Text>
+            {ROUNDING_MODES.map((m) => (
+              <Chip
+                key={m}
+                C={C}
+                active={current.rounding === m}
+                label={t(`rounding_${m}`)}
+                onPress={() => edit({ rounding: m })}
+              />
+            ))}
+          </View>
+
+          {err && (
+            <Text style={{ color: C.danger, marginTop: 8 }}>
+              {t(`invoice_bad_${err.field}`, {
+                line: err.line === null ? "" : fmtSmall(err.line),
+                text: err.fragment,
+              })}
+            </Text>
+          )}
+
+          {/* totals in both units */}
+          <View
+            style={{
+              marginTop: 10,
+              backgroundColor: C.card,
+              borderRadius: 10,
+              borderWidth: 1,
+              borderColor: C.border,
+            }}
+          >
+            {totalRow(t("invoice_subtotal"), totals.gross)}
+            {totals.discount > 0n && totalRow(t("invoice_discount_total"), totals.discount)}
+            {totals.discount > 0n && totalRow(t("invoice_net"), totals.subtotal)}
+            {totalRow(
+              t("invoice_vat_amount", { rate: current.vat.trim() || fmtSmall(0) }),
+              totals.vat
+            )}
+            {totalRow(t("invoice_total"), totals.total, true)}
+          </View>
+
+          <View
+            style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, alignItems: "center", marginTop: 10 }}
+          >
+            <Text style={{ color: C.text, fontWeight: "600" }}>{t("invoice_export")}</Text>
+            <Chip C={C} active={false} label={t("batch_text")} onPress={() => exportAs("text")} />
+            <Chip C={C} active={false} label="CSV" onPress={() => exportAs("csv")} />
+            {invoices.some((i) => i.id === current.id) && (
+              <Pressable
+                onPress={deleteCurrent}
+                accessibilityRole="button"
+                style={{ marginStart: "auto" }}
+              >
+                <Text style={{ color: C.danger, fontWeight: "700" }}>{t("invoice_delete")}</Text>
+              </Pressable>
+            )}
+          </View>
+        </ScrollView>
+
+        <Pressable
+          onPress={onClose}
+          accessibilityRole="button"
+          style={{
+            marginTop: 14,
+            alignSelf: "center",
+            backgroundColor: C.primary,
+            paddingHorizontal: 16,
+            paddingVertical: 8,
+            borderRadius: 10,
+          }}
+        >
+          <Text style={{ color: C.onPrimary, fontWeight: "800" }}>{t("close")}</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,260 @@
+import React, { useMemo, useState } from "react";
+import { Modal, View, Text, TextInput, Pressable, ScrollView } from "react-native";
+import {
+  breakdownOld,
+  equalWeights,
+  onlyDigits,
+  parseWeights,
+  splitOld,
+  OLD_PER_QERAN,
+  PERCENT_TOTAL,
+  WEIGHT_DECIMALS,
+  type RoundingMode,
+  type SplitMode,
+  type UnitBreakdown,
+} from "../engine";
+import AmountInput from "./AmountInput";
+import Chip from "./Chip";
+import type { UiProps } from "./types";
+
+type Props = UiProps & {
+  visible: boolean;
+  result: UnitBreakdown; // the app's current conversion
+  rounding: RoundingMode;
+  onClose: () => void;
+};
+
+// a longer table isn't readable on a phone anyway
+const MAX_SHARES = 500;
+
+const WEIGHT_SCALE = 10n ** BigInt(WEIGHT_DECIMALS);
+
+export default function SplitModal({ C, i18n, visible, result, rounding, onClose }: Props) {
+  const { t, fmt, fmtSmall } = i18n;
+  const [mode, setMode] = useState<SplitMode>("equal");
+  const [countInput, setCountInput] = useState("2");
+  const [weightsInput, setWeightsInput] = useState("");
+
+  // scaled weight → "33.5" in the locale's digits
+  const weightText = (w: bigint) => {
+    const frac = (w % WEIGHT_SCALE).toString().padStart(WEIGHT_DECIMALS, "0").replace(/0+$/, "");
+    return i18n.fmtDecimal(w / WEIGHT_SCALE, frac);
+  };
+
+  // the weights to split by, or why there are none
+  const plan = useMemo((): { weights: bigint[] } | { error: string } | null => {
+    if (mode === "equal") {
+      const n = Number(onlyDigits(countInput));
+      if (!n) return null;
+      if (n > MAX_SHARES) return { error: t("split_too_many", { max: fmt(BigInt(MAX_SHARES)) }) };
+      return { weights: equalWeights(n) };
+    }
+    if (!weightsInput.trim()) return null;
+    const parsed = parseWeights(weightsInput);
+    if (!parsed.ok) return { error: t("split_bad_weight", { text: parsed.fragment }) };
+    if (parsed.weights.length > MAX_SHARES) {
+      return { error: t("split_too_many", { max: fmt(BigInt(MAX_SHARES)) }) };
+    }
+    const total = parsed.weights.reduce((sum, w) => sum + w, 0n);
+    if (mode === "percent" && total !== PERCENT_TOTAL) {
+      return { error: t("split_percent_total", { total: weightText(total) }) };
+    }
+    return { weights: parsed.weights };
+  }, [mode, countInput, weightsInput, i18n]);
+
+  const shares = useMemo(
+    () => (plan && "weights" in plan ? splitOld(result.oldRial, plan.weights) : []),
+    [plan, result.oldRial]
+  );
+  const subQeran = result.oldRial % OLD_PER_QERAN;
+
+  const newText = (b: UnitBreakdown) => i18n.fmtNew(b.newRial, b.qeran);
+
+  const row = (key: string, label: string, weight: string, oldRial: bigint, strong = false) => (
+    <View
+      key={key}
+      style={{
+        flexDirection: "row",
+        gap: 8,
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderBottomWidth: 1,
+        borderColor: C.border,
+      }}
+    >
+      <Text style={{ color: C.sub, width: 40 }}>{label}</Text>
+      {mode !== "equal" && <Text style={{ color: C.sub, width: 56 }}>{weight}</Text>}
+      <Text
+        style={{
+          color: C.old,
+          flex: 1,
+          fontVariant: ["tabular-nums"],
+          fontWeight: strong ? "700" : "400",
+        }}
+      >
+        {fmt(oldRial)}
+      </Text>
+      <Text
+        style={{
+          color: C.ok,
+          flex: 1,
+          fontVariant: ["tabular-nums"],
+          fontWeight: strong ? "700" : "400",
+        }}
+      >
+        {newText(breakdownOld(oldRial, rounding))}
+      </Text>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={{ flex: 1, backgroundColor: C.bg, padding: 16, direction: i18n.dir }}>
+        <Text
+          style={{
+            color: C.text,
+            fontSize: 18,
+            fontWeight: "800",
+            textAlign: "center",
+            marginBottom: 8,
+          }}
+        >
+          {t("split")}
+        </Text>
+        <Text style={{ color: C.text, fontWeight: "700" }}>
+          {t("split_for", { amount: `${fmt(result.oldRial)} ${t("old_rial")}` })}
+        </Text>
+        <Text style={{ color: C.sub }}>= {newText(result)}</Text>
+
+        {/* options */}
+        <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, marginTop: 10 }}>
+          <Chip
+            C={C}
+            active={mode === "equal"}
+            label={t("split_equal")}
+            onPress={() => setMode("equal")}
+          />
+          <Chip
+            C={C}
+            active={mode === "weights"}
+            label={t("split_weights")}
+            onPress={() => setMode("weights")}
+          />
+          <Chip
+            C={C}
+            active={mode === "percent"}
+            label={t("split_percent")}
+            onPress={() => setMode("percent")}
+          />
+        </View>
+        {mode === "equal" ? (
+          <View
+            style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, alignItems: "center", marginTop: 8 }}
+          >
+            <Text style={{ color: C.text, fontWeight: "600" }}>{t("split_count")}</Text>
+            <AmountInput
+              C={C}
+              i18n={i18n}
+              value={countInput}
+              onChangeText={setCountInput}
+              digitsOnly
+              maxDigits={3}
+              accessibilityLabel={t("split_count")}
+              style={{ minWidth: 70, fontSize: 16, padding: 8 }}
+            />
+          </View>
+        ) : (
+          <TextInput
+            value={weightsInput}
+            onChangeText={setWeightsInput}
+            inputMode="decimal"
+            placeholder={t(mode === "percent" ? "split_percent_placeholder" : "split_weights_placeholder")}
+            placeholderTextColor={C.sub}
+            accessibilityLabel={t(mode === "percent" ? "split_percent" : "split_weights")}
+            style={{
+              marginTop: 8,
+              backgroundColor: C.field,
+              color: C.text,
+              padding: 12,
+              borderRadius: 10,
+              borderWidth: 1,
+              borderColor: C.border,
+              fontVariant: ["tabular-nums"],
+            }}
+          />
+        )}
+        {plan && "error" in plan && (
+          <Text style={{ color: C.danger, marginTop: 6 }}>{plan.error}</Text>
+        )}
+        {shares.length > 0 && subQeran > 0n && (
+          <Text style={{ color: C.old, marginTop: 6 }}>
+            {t("split_sub_qeran", { amount: fmt(subQeran) })}
+          </Text>
+        )}
+
+        {/* shares in old and new units */}
+        <ScrollView
+          style={{
+            flex: 1,
+            marginTop: 10,
+            backgroundColor: C.card,
+            borderRadius: 10,
+            borderWidth: 1,
+            borderColor: C.border,
+          }}
+        >
+          {shares.length > 0 && (
+            <View
+              style={{
+                flexDirection: "row",
+                gap: 8,
+                paddingHorizontal: 10,
+                paddingVertical: 6,
+                borderBottomWidth: 1,
+                borderColor: C.border,
+              }}
+            >
+              <Text style={{ color: C.sub, width: 40 }}>{t("split_share")}</Text>
+              {mode !== "equal" && (
+                <Text style={{ color: C.sub, width: 56 }}>{mode === "weights" ? "⚖" : i18n.number.digits === "latin" ? "%" : "٪"}</Text>
+              )}
+              <Text style={{ color: C.sub, flex: 1 }}>{t("old_rial")}</Text>
+              <Text style={{ color: C.sub, flex: 1 }}>{t("new_rial")}</Text>
+            </View>
+          )}
+          {shares.map((s, i) =>
+            row(
+              String(i),
+              fmtSmall(i + 1),
+              plan && "weights" in plan ? weightText(plan.weights[i]) : "",
+              s
+            )
+          )}
+          {shares.length > 0 &&
+            row(
+              "total",
+              t("split_total"),
+              "",
+              shares.reduce((sum, s) => sum + s, 0n),
+              true
+            )}
+        </ScrollView>
+
+        <Pressable
+          onPress={onClose}
+          accessibilityRole="button"
+          style={{
+            marginTop: 14,
+            alignSelf: "center",
+            backgroundColor: C.primary,
+            paddingHorizontal: 16,
+            paddingVertical: 8,
+            borderRadius: 10,
+          }}
+        >
+          <Text style={{ color: C.onPrimary, fontWeight: "800" }}>{t("close")}</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
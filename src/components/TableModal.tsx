@@ -0,0 +1,281 @@
+import React, { useMemo, useState } from "react";
+import { Modal, View, Text, TextInput, Pressable, ScrollView, Share } from "react-native";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+import * as FileSystem from "expo-file-system";
+import {
+  DIGIT_SCRIPTS,
+  MAX_TABLE_ROWS,
+  mapDigits,
+  parseAmountInUnit,
+  parseAmountList,
+  referenceTableHtml,
+  tableRange,
+  type DigitScript,
+  type RoundingMode,
+  type TableAmounts,
+} from "../engine";
+import { makePalette, type AccentName, type Scheme } from "../theme";
+import AmountInput from "./AmountInput";
+import Chip from "./Chip";
+import type { UiProps } from "./types";
+
+type Props = UiProps & {
+  visible: boolean;
+  rounding: RoundingMode;
+  scheme: Scheme; // the app's current scheme, the default for the document
+  accent: AccentName;
+  onClose: () => void;
+};
+
+const SCHEMES: Scheme[] = ["light", "dark", "contrast"];
+
+export default function TableModal({ C, i18n, visible, rounding, scheme, accent, onClose }: Props) {
+  const { t, fmt, fmtSmall } = i18n;
+  const [title, setTitle] = useState("");
+  const [mode, setMode] = useState<"range" | "list">("range");
+  const [fromInput, setFromInput] = useState(() => i18n.group("1000"));
+  const [toInput, setToInput] = useState(() => i18n.group("1000000"));
+  const [stepInput, setStepInput] = useState(() => i18n.group("5000"));
+  const [listInput, setListInput] = useState("");
+  const [withWords, setWithWords] = useState(false);
+  const [digits, setDigits] = useState<DigitScript>(i18n.number.digits);
+  const [docScheme, setDocScheme] = useState<Scheme>(scheme);
+
+  // the amounts to print, or why there are none
+  const amounts = useMemo((): TableAmounts | null => {
+    if (mode === "list") return listInput.trim() ? parseAmountList(listInput) : null;
+    const parts = [fromInput, toInput, stepInput].map((s) => parseAmountInUnit(s, "oldRial"));
+    const bad = parts.find((p) => !p.ok);
+    if (bad && !bad.ok) return { ok: false, code: "bad_amount", fragment: bad.fragment };
+    const [from, to, step] = parts.map((p) => (p.ok ? p.value : 0n));
+    return tableRange(from, to, step);
+  }, [mode, fromInput, toInput, stepInput, listInput]);
+
+  const errorText = (a: Extract<TableAmounts, { ok: false }>) =>
+    t(`table_${a.code}`, { text: a.fragment, max: fmt(BigInt(MAX_TABLE_ROWS)) });
+
+  const html = () =>
+    amounts?.ok
+      ? referenceTableHtml(amounts.amounts, {
+          title: title.trim() || t("table_default_title"),
+          lang: i18n.locale,
+          dir: i18n.dir,
+          labels: {
+            oldRial: t("unit_oldRial"),
+            oldToman: t("unit_oldToman"),
+            newRial: t("unit_newRial"),
+            words: t("letters_new"),
+            and: t("and"),
+            qeran: t("qeran"),
+          },
+          format: { ...i18n.number, digits },
+          qeranDecimal: i18n.qeranDecimal,
+          words: withWords ? i18n.words : null,
+          rounding,
+          colors: makePalette(docScheme, accent),
+        })
+      : "";
+
+  const print = async () => {
+    try {
+      await Print.printAsync({ html: html() });
+    } catch {
+      // dismissed or no print service; nothing to report
+    }
+  };
+
+  // an .html file where the platform can share files, the markup as text otherwise
+  const share = async () => {
+    const doc = html();
+    try {
+      if (FileSystem.cacheDirectory && (await Sharing.isAvailableAsync())) {
+        const uri = `${FileSystem.cacheDirectory}rial-table.html`;
+        await FileSystem.writeAsStringAsync(uri, doc);
+        await Sharing.shareAsync(uri, { mimeType: "text/html", UTI: "public.html", dialogTitle: t("table") });
+        return;
+      }
+    } catch {
+      // the file could not be written or shared; send the text instead
+    }
+    Share.share({ message: doc, title: t("table") });
+  };
+
+  const rangeField = (label: string, value: string, onChange: (v: string) => void) => (
+    <View style={{ flex: 1, gap: 4 }}>
+      <Text style={{ color: C.sub }}>{label}</Text>
+      <AmountInput
+        C={C}
+        i18n={i18n}
+        value={value}
+        onChangeText={onChange}
+        accessibilityLabel={label}
+        style={{ fontSize: 16, padding: 8 }}
+      />
+    </View>
+  );
+
+  const optionRow = (label: string, children: React.ReactNode) => (
+    <View
+      style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, alignItems: "center", marginTop: 10 }}
+    >
+      <Text style={{ color: C.text, fontWeight: "600" }}>{label}</Text>
+      {children}
+    </View>
+  );
+
+  const ready = amounts?.ok && amounts.amounts.length > 0;
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={{ flex: 1, backgroundColor: C.bg, padding: 16, direction: i18n.dir }}>
+        <Text
+          style={{
+            color: C.text,
+            fontSize: 18,
+            fontWeight: "800",
+            textAlign: "center",
+            marginBottom: 8,
+          }}
+        >
+          {t("table")}
+        </Text>
+
+        <ScrollView style={{ flex: 1 }} keyboardShouldPersistTaps="handled">
+          <TextInput
+            value={title}
+            onChangeText={setTitle}
+            placeholder={t("table_default_title")}
+            placeholderTextColor={C.sub}
+            accessibilityLabel={t("table_title")}
+            style={{
+              backgroundColor: C.field,
+              color: C.text,
+              paddingHorizontal: 10,
+              paddingVertical: 8,
+              borderRadius: 8,
+              borderWidth: 1,
+              borderColor: C.border,
+              fontWeight: "700",
+            }}
+          />
+
+          {/* which amounts */}
+          <View style={{ flexDirection: "row", gap: 6, marginTop: 10 }}>
+            <Chip
+              C={C}
+              active={mode === "range"}
+              label={t("table_range")}
+              onPress={() => setMode("range")}
+            />
+            <Chip
+              C={C}
+              active={mode === "list"}
+              label={t("table_list")}
+              onPress={() => setMode("list")}
+            />
+          </View>
+          {mode === "range" ? (
+            <View style={{ flexDirection: "row", gap: 8, marginTop: 8 }}>
+              {rangeField(t("table_from"), fromInput, setFromInput)}
+              {rangeField(t("table_to"), toInput, setToInput)}
+              {rangeField(t("table_step"), stepInput, setStepInput)}
+            </View>
+          ) : (
+            <TextInput
+              multiline
+              value={listInput}
+              onChangeText={setListInput}
+              placeholder={t("table_list_placeholder")}
+              placeholderTextColor={C.sub}
+              textAlignVertical="top"
+              style={{
+                marginTop: 8,
+                height: 140,
+                backgroundColor: C.field,
+                color: C.text,
+                padding: 12,
+                borderRadius: 10,
+                borderWidth: 1,
+                borderColor: C.border,
+              }}
+            />
+          )}
+
+          {/* how the document looks */}
+          {optionRow(
+            t("number_digits"),
+            DIGIT_SCRIPTS.map((d) => (
+              <Chip
+                key={d}
+                C={C}
+                active={digits === d}
+                label={mapDigits("123", d)}
+                onPress={() => setDigits(d)}
+              />
+            ))
+          )}
+          {optionRow(
+            t("theme"),
+            SCHEMES.map((s) => (
+              <Chip
+                key={s}
+                C={C}
+                active={docScheme === s}
+                label={t(`theme_${s}`)}
+                onPress={() => setDocScheme(s)}
+              />
+            ))
+          )}
+          <View style={{ flexDirection: "row", marginTop: 10 }}>
+            <Chip
+              C={C}
+              active={withWords}
+              label={t("table_words")}
+              onPress={() => setWithWords(!withWords)}
+            />
+          </View>
+
+          {amounts && !amounts.ok && (
+            <Text style={{ color: C.danger, marginTop: 10 }}>{errorText(amounts)}</Text>
+          )}
+          {ready && (
+            <Text style={{ color: C.sub, marginTop: 10 }}>
+              {t("table_rows", { count: fmtSmall(amounts.amounts.length) })}
+            </Text>
+          )}
+
+          <View style={{ flexDirection: "row", gap: 6, marginTop: 10, opacity: ready ? 1 : 0.5 }}>
+            <Chip
+              C={C}
+              active={false}
+              label={`🖨️ ${t("table_print")}`}
+              onPress={() => ready && print()}
+            />
+            <Chip
+              C={C}
+              active={false}
+              label={`📤 ${t("table_share")}`}
+              onPress={() => ready && share()}
+            />
+          </View>
+        </ScrollView>
+
+        <Pressable
+          onPress={onClose}
+          accessibilityRole="button"
+          style={{
+            marginTop: 14,
+            alignSelf: "center",
+            backgroundColor: C.primary,
+            paddingHorizontal: 16,
+            paddingVertical: 8,
+            borderRadius: 10,
+          }}
+        >
+          <Text style={{ color: C.onPrimary, fontWeight: "800" }}>{t("close")}</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
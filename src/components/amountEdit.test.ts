@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { groupPlain, mapDigits } from "../engine";
+import { applyAmountEdit } from "./amountEdit";
+
+const latin = (plain: string) => groupPlain(plain, ",", 3);
+const persian = (plain: string) => mapDigits(groupPlain(plain, "٬", 3), "persian");
+
+test("typing regroups and keeps the caret after the typed digit", () => {
+  assert.deepEqual(applyAmountEdit("1,234", "1,2345", latin), { text: "12,345", caret: 6 });
+  // "9" typed after "1," in the middle: the caret stays right after it
+  assert.deepEqual(applyAmountEdit("1,234", "1,9234", latin), { text: "19,234", caret: 2 });
+  assert.deepEqual(applyAmountEdit("۱۲۳", "۱۲۳۴", persian), { text: "۱٬۲۳۴", caret: 5 });
+});
+
+test("backspacing over a separator deletes the digit in front of it", () => {
+  // caret was after "12,": removing the "," removes the "2"
+  assert.deepEqual(applyAmountEdit("12,345", "12345", latin), { text: "1,345", caret: 1 });
+  assert.deepEqual(applyAmountEdit("1,234", "1234", latin), { text: "234", caret: 0 });
+});
+
+test("an emptied field stays empty", () => {
+  assert.deepEqual(applyAmountEdit("5", "", latin), { text: "", caret: 0 });
+  assert.deepEqual(applyAmountEdit("1,234", "", latin), { text: "", caret: 0 });
+});
+
+test("a paste in mixed digit scripts comes out in the field's digits", () => {
+  assert.deepEqual(applyAmountEdit("", "۱۲٣4567", latin), { text: "1,234,567", caret: 9 });
+  assert.deepEqual(applyAmountEdit("", "1'234'567", persian), { text: "۱٬۲۳۴٬۵۶۷", caret: 9 });
+});
+
+test("maxDigits keeps only the first digits", () => {
+  assert.deepEqual(applyAmountEdit("4", "456", (s) => s, { maxDigits: 2 }), { text: "45", caret: 2 });
+  assert.deepEqual(applyAmountEdit("", "۹۹۹", (s) => s, { maxDigits: 2 }), { text: "99", caret: 2 });
+});
+
+test("words and expressions are left as typed, unless the field takes digits only", () => {
+  assert.deepEqual(applyAmountEdit("5", "5 هزار", latin), { text: "5 هزار", caret: null });
+  assert.deepEqual(applyAmountEdit("1,000", "1,000 + 9%", latin), { text: "1,000 + 9%", caret: null });
+  assert.deepEqual(applyAmountEdit("4", "4a", (s) => s, { digitsOnly: true }), { text: "4", caret: 1 });
+});
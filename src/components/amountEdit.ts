@@ -0,0 +1,67 @@
+/* ======================= Amount field editing: regroup without losing the caret ======================= */
+import { isDigitChar, isPlainDigits, onlyDigits, stripBidiMarks } from "../engine";
+
+export type AmountEdit = {
+  text: string;
+  caret: number | null; // null: free text (words, expressions), let the native caret be
+};
+
+const digitsBefore = (s: string, end: number) => {
+  let n = 0;
+  for (let i = 0; i < end && i < s.length; i++) if (isDigitChar(s[i])) n++;
+  return n;
+};
+
+// index just after the `count`-th digit of `s`
+const caretAfterDigits = (s: string, count: number) => {
+  if (count <= 0) return 0;
+  let n = 0;
+  for (let i = 0; i < s.length; i++) {
+    if (isDigitChar(s[i]) && ++n === count) return i + 1;
+  }
+  return s.length;
+};
+
+/**
+ * Apply one edit of an amount field. Plain digits (any script, any separator) are regrouped
+ * with `group` and the caret stays after the same digit; backspacing over a separator
+ * deletes the digit before it; an emptied field stays empty. Anything else (words, expressions)
+ * is kept as typed, unless `digitsOnly` asks for everything but the digits to be dropped.
+ */
+export const applyAmountEdit = (
+  prev: string,
+  next: string,
+  group: (plain: string) => string,
+  { maxDigits, digitsOnly = false }: { maxDigits?: number; digitsOnly?: boolean } = {}
+): AmountEdit => {
+  const text = stripBidiMarks(next);
+  if (!digitsOnly && !isPlainDigits(text)) return { text, caret: null };
+
+  // the edited region: common prefix, then the caret sits at the end of what was inserted
+  let start = 0;
+  while (start < prev.length && start < text.length && prev[start] === text[start]) start++;
+  let suffix = 0;
+  while (
+    suffix < prev.length - start &&
+    suffix < text.length - start &&
+    prev[prev.length - 1 - suffix] === text[text.length - 1 - suffix]
+  )
+    suffix++;
+
+  let raw = onlyDigits(text);
+  let before = digitsBefore(text, text.length - suffix);
+
+  // only a separator went away: treat it as deleting the digit in front of it
+  if (text.length === prev.length - 1 && raw === onlyDigits(prev) && before > 0) {
+    raw = raw.slice(0, before - 1) + raw.slice(before);
+    before--;
+  }
+
+  if (maxDigits !== undefined && raw.length > maxDigits) {
+    raw = raw.slice(0, maxDigits);
+    before = Math.min(before, maxDigits);
+  }
+
+  const formatted = raw ? group(raw) : "";
+  return { text: formatted, caret: caretAfterDigits(formatted, before) };
+};
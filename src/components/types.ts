@@ -0,0 +1,7 @@
+// shared props passed down from App to screens and modals
+import type { I18n } from "../i18n";
+import type { Palette } from "../theme";
+
+export type { Palette };
+
+export type UiProps = { C: Palette; i18n: I18n };
@@ -0,0 +1,142 @@
+/* ======================= Batch conversion (pasted lists / CSV) ======================= */
+import {
+  formatNumber,
+  mapDigits,
+  NUMBER_FORMATS,
+  type DigitScript,
+  type Lang,
+  type NumberFormat,
+  type TextLabels,
+} from "./digits";
+import { breakdownOld, parseAmountInUnit, type RoundingMode } from "./convert";
+import type { AmountErrorCode } from "./parse";
+
+export type BatchDirection = "oldToNew" | "newToOld";
+
+export type BatchOptions = {
+  direction: BatchDirection;
+  /** 1-based CSV column holding the amount; omit to read each whole line. */
+  column?: number;
+  /** Skip the first non-empty line (CSV header). */
+  header?: boolean;
+  rounding?: RoundingMode;
+};
+
+export type BatchErrorCode = AmountErrorCode | "no_column";
+
+export type BatchRow =
+  | {
+      line: number; // 1-based line in the pasted text
+      source: string;
+      ok: true;
+      oldRial: bigint;
+      newRial: bigint;
+      qeran: number;
+      subQeranRem: bigint;
+    }
+  | {
+      line: number;
+      source: string;
+      ok: false;
+      code: BatchErrorCode;
+      fragment: string; // the part that failed to parse
+    };
+
+/** Split one CSV line, honouring double-quoted fields ("1,200,000") and "" escapes. */
+export const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delimiter) {
+      out.push(cur);
+      cur = "";
+    } else cur += ch;
+  }
+  out.push(cur);
+  return out;
+};
+
+/** Tab if any line has one, else ";" if present, else ",". */
+export const detectDelimiter = (text: string) =>
+  text.includes("\t") ? "\t" : text.includes(";") ? ";" : ",";
+
+/** Convert every non-empty line; rows that don't parse carry an error code instead of failing the batch. */
+export const convertBatch = (text: string, opts: BatchOptions): BatchRow[] => {
+  const delimiter = detectDelimiter(text);
+  const rows: BatchRow[] = [];
+  let skipHeader = !!opts.header;
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if (!raw.trim()) return;
+    if (skipHeader) {
+      skipHeader = false;
+      return;
+    }
+    const line = i + 1;
+    let source = raw.trim();
+    if (opts.column) {
+      const cells = splitCsvLine(raw, delimiter);
+      if (opts.column > cells.length) {
+        rows.push({ line, source, ok: false, code: "no_column", fragment: source });
+        return;
+      }
+      source = cells[opts.column - 1].trim();
+    }
+    const parsed = parseAmountInUnit(source, opts.direction === "oldToNew" ? "oldRial" : "newRial");
+    if (!parsed.ok) {
+      rows.push({ line, source, ok: false, code: parsed.code, fragment: parsed.fragment });
+      return;
+    }
+    const b = breakdownOld(parsed.value, opts.rounding);
+    rows.push({
+      line,
+      source,
+      ok: true,
+      oldRial: b.oldRial,
+      newRial: b.newRial,
+      qeran: b.qeran,
+      subQeranRem: b.subQeranRem,
+    });
+  });
+  return rows;
+};
+
+/** One CSV field, quoted when it holds a quote, a delimiter ("," ";" tab) or a newline. */
+export const csvCell = (s: string) => (/[",;\t\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s);
+
+/** Export as CSV (ungrouped amounts so spreadsheets can read them) in the given digit script. */
+export const batchToCsv = (rows: BatchRow[], digits: DigitScript = "latin") => {
+  const lines = ["line,input,old_rial,new_rial,qeran,sub_qeran_old_rial,error"];
+  for (const r of rows) {
+    const cells = r.ok
+      ? [r.line, r.source, r.oldRial, r.newRial, r.qeran, r.subQeranRem, ""]
+      : [r.line, r.source, "", "", "", "", r.code];
+    lines.push(cells.map((c) => csvCell(mapDigits(String(c), digits))).join(","));
+  }
+  return lines.join("\n");
+};
+
+/** Export as readable lines worded by `t`, e.g. "550,000 Old Rial = 55 New Rial & 0 Qeran". */
+export const batchToText = (
+  rows: BatchRow[],
+  lang: Lang,
+  t: TextLabels,
+  describeError: (code: BatchErrorCode, fragment: string) => string = (code) => code,
+  format: NumberFormat = NUMBER_FORMATS[lang]
+) => {
+  return rows
+    .map((r) =>
+      r.ok
+        ? `${formatNumber(r.oldRial, format)} ${t("old_rial")} = ${formatNumber(r.newRial, format)} ${t("new_rial")} ${t("and")} ${mapDigits(String(r.qeran), format.digits)} ${t("qeran")}`
+        : `${mapDigits(String(r.line), format.digits)}: ${r.source} (${t("batch_error")}: ${describeError(r.code, r.fragment)})`
+    )
+    .join("\n");
+};
@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_DENOMINATIONS, breakdownCash, type CashBreakdown } from "./cash";
+
+const paid = (c: CashBreakdown) => c.items.reduce((sum, it) => sum + it.value * it.count, 0n);
+const pieces = (c: CashBreakdown) => c.items.reduce((sum, it) => sum + it.count, 0n);
+
+// fewest pieces by trying every count, for small amounts only
+const fewest = (amount: number, ds: number[]): number => {
+  const best = [0];
+  for (let v = 1; v <= amount; v++) {
+    best[v] = Math.min(...ds.filter((d) => d <= v).map((d) => best[v - d] + 1), Infinity);
+  }
+  return best[amount];
+};
+
+test("non-greedy tables: 6 from 4/3/1 is 3 + 3, not 4 + 1 + 1", () => {
+  assert.deepEqual(breakdownCash(6n, [4n, 3n, 1n]), {
+    items: [{ value: 3n, count: 2n }],
+    remainder: 0n,
+    minimal: true,
+  });
+  for (let v = 1; v <= 60; v++) {
+    const c = breakdownCash(BigInt(v), [1n, 3n, 4n]);
+    assert.equal(paid(c), BigInt(v));
+    assert.equal(Number(pieces(c)), fewest(v, [4, 3, 1]), `amount ${v}`);
+  }
+});
+
+test("the default table pays 55 new rial 40 qeran in five pieces", () => {
+  const c = breakdownCash(5540n, DEFAULT_DENOMINATIONS);
+  assert.deepEqual(c.items, [
+    { value: 5000n, count: 1n },
+    { value: 500n, count: 1n },
+    { value: 20n, count: 2n },
+  ]);
+  assert.equal(c.remainder, 0n);
+});
+
+test("what the table can't make is left as a remainder, paying as much as possible", () => {
+  // 7 from 5/3: 3 + 3 pays 6, 1 left
+  assert.deepEqual(breakdownCash(7n, [5n, 3n]), {
+    items: [{ value: 3n, count: 2n }],
+    remainder: 1n,
+    minimal: true,
+  });
+  assert.deepEqual(breakdownCash(1n, [2n]), { items: [], remainder: 1n, minimal: true });
+  assert.deepEqual(breakdownCash(9n, []), { items: [], remainder: 9n, minimal: true });
+  assert.deepEqual(breakdownCash(0n, [1n]), { items: [], remainder: 0n, minimal: true });
+});
+
+test("very large amounts are paid mostly in the largest note, still minimal", () => {
+  const amount = 10n ** 30n + 5540n;
+  const c = breakdownCash(amount, DEFAULT_DENOMINATIONS);
+  assert.equal(paid(c), amount);
+  assert.equal(c.minimal, true);
+  assert.deepEqual(c.items, [
+    { value: 10000n, count: 10n ** 26n },
+    { value: 5000n, count: 1n },
+    { value: 500n, count: 1n },
+    { value: 20n, count: 2n },
+  ]);
+  // non-greedy table past the searched rest: the bulk goes to 4s, the rest still 3 + 3
+  const odd = breakdownCash(4n * 10n ** 20n + 6n, [4n, 3n, 1n]);
+  assert.equal(pieces(odd), 10n ** 20n + 2n);
+});
+
+test("a table too irregular to search falls back to greedy and says so", () => {
+  const c = breakdownCash(300000n, [100003n, 99991n, 7n]);
+  assert.equal(c.minimal, false);
+  assert.deepEqual(c.items, [
+    { value: 100003n, count: 2n },
+    { value: 99991n, count: 1n },
+  ]);
+  // 2 × 100,003 + 99,991 = 299,997: greedy leaves 3 that the 7s cannot make
+  assert.equal(c.remainder, 3n);
+});
@@ -0,0 +1,83 @@
+/* ======================= Notes & coins: minimal-count breakdown ======================= */
+
+/** Denominations are counted in qerans (1 new rial = 100 qeran). */
+export const QERAN_PER_NEW = 100n;
+
+/** New rial notes 100 … 1, then qeran coins 50 … 1. */
+export const DEFAULT_DENOMINATIONS: bigint[] = [
+  10000n, 5000n, 2000n, 1000n, 500n, 200n, 100n, // 100, 50, 20, 10, 5, 2, 1 new rial
+  50n, 20n, 10n, 5n, 2n, 1n, // qeran
+];
+
+export type CashItem = { value: bigint; count: bigint };
+
+export type CashBreakdown = {
+  items: CashItem[]; // largest first, zero counts left out
+  remainder: bigint; // qerans the denominations can't make up
+  minimal: boolean; // false when the table was too irregular to search and greedy was used
+};
+
+// largest DP table we build; the default table needs about 130,000 entries
+const SEARCH_LIMIT = 200_000n;
+
+const gcd = (a: bigint, b: bigint): bigint => (b === 0n ? a : gcd(b, a % b));
+const lcm = (a: bigint, b: bigint) => (a / gcd(a, b)) * b;
+
+const byValueDesc = (a: bigint, b: bigint) => (a > b ? -1 : a < b ? 1 : 0);
+
+const greedy = (amount: bigint, ds: bigint[]): CashBreakdown => {
+  let rest = amount;
+  const items: CashItem[] = [];
+  for (const value of ds) {
+    const count = rest / value;
+    if (count > 0n) items.push({ value, count });
+    rest -= count * value;
+  }
+  return { items, remainder: rest, minimal: false };
+};
+
+/**
+ * Split an amount of qerans into the fewest notes and coins from `denominations`.
+ * Works for any table, not just ones where greedy happens to be optimal (e.g. 4, 3, 1).
+ * An optimal split holds fewer than lcm(d, largest) / d of every smaller d, so all but
+ * a bounded rest is paid in the largest denomination and only that rest is searched.
+ */
+export const breakdownCash = (amount: bigint, denominations: bigint[]): CashBreakdown => {
+  const ds = [...new Set(denominations.filter((d) => d > 0n))].sort(byValueDesc);
+  if (amount <= 0n) return { items: [], remainder: 0n, minimal: true };
+  if (ds.length === 0) return { items: [], remainder: amount, minimal: true };
+
+  const largest = ds[0];
+  const bound = ds.slice(1).reduce((sum, d) => sum + lcm(d, largest), largest);
+  if (bound > SEARCH_LIMIT) return greedy(amount, ds);
+
+  const bulk = amount > bound ? (amount - bound + largest - 1n) / largest : 0n;
+  const rest = Number(amount - bulk * largest);
+
+  // fewest pieces for every value up to `rest`; -1 = can't be made
+  const values = ds.map(Number);
+  const best = new Int32Array(rest + 1).fill(-1);
+  const pick = new Int32Array(rest + 1);
+  best[0] = 0;
+  for (let v = 1; v <= rest; v++) {
+    for (let i = 0; i < values.length; i++) {
+      const prev = v - values[i];
+      if (prev >= 0 && best[prev] !== -1 && (best[v] === -1 || best[prev] + 1 < best[v])) {
+        best[v] = best[prev] + 1;
+        pick[v] = i;
+      }
+    }
+  }
+  // pay as much as the table allows when the exact amount can't be made
+  let paid = rest;
+  while (best[paid] === -1) paid--;
+
+  const counts = ds.map(() => 0n);
+  counts[0] = bulk;
+  for (let v = paid; v > 0; v -= values[pick[v]]) counts[pick[v]]++;
+  return {
+    items: ds.map((value, i) => ({ value, count: counts[i] })).filter((it) => it.count > 0n),
+    remainder: BigInt(rest - paid),
+    minimal: true,
+  };
+};
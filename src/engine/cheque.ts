@@ -0,0 +1,82 @@
+/* ======================= Cheque / invoice wording ======================= */
+import type { Lang } from "./digits";
+import type { Unit, UnitBreakdown } from "./convert";
+import { bigIntToPersianWords } from "./words";
+import { bigIntToEnglishWords } from "./wordsEn";
+
+/** BigInt → words in the given language. */
+export const bigIntToWords = (n: bigint, lang: Lang) =>
+  lang === "fa" ? bigIntToPersianWords(n) : bigIntToEnglishWords(n);
+
+/**
+ * The result side of a conversion in words: new rial (+ qeran) when converting
+ * old → new, old rial when converting new → old.
+ */
+export const resultInWords = (
+  b: UnitBreakdown,
+  mode: "oldToNew" | "newToOld",
+  lang: Lang
+): string => {
+  const rial = lang === "fa" ? "ریال" : "rial(s)";
+  if (mode === "newToOld") return `${bigIntToWords(b.oldRial, lang)} ${rial}`;
+  const qeran =
+    b.qeran > 0
+      ? lang === "fa"
+        ? ` و ${bigIntToWords(BigInt(b.qeran), lang)} قِران`
+        : ` and ${bigIntToWords(BigInt(b.qeran), lang)} qeran`
+      : "";
+  return `${bigIntToWords(b.newRial, lang)} ${rial}${qeran}`;
+};
+
+type Part = { amount: bigint; unit: "rial" | "toman" | "qeran" };
+
+const unitWordsFa = { rial: "ریال", toman: "تومان", qeran: "قِران" };
+const unitWordsEn = {
+  rial: ["rial", "rials"],
+  toman: ["toman", "tomans"],
+  qeran: ["qeran", "qerans"],
+};
+
+// the whole amount in `unit`, then the sub-units it can't hold
+const partsFor = (b: UnitBreakdown, unit: Unit): Part[] => {
+  switch (unit) {
+    case "oldRial":
+      return [{ amount: b.oldRial, unit: "rial" }];
+    case "oldToman":
+      return [
+        { amount: b.oldToman, unit: "toman" },
+        { amount: b.oldTomanRem, unit: "rial" },
+      ];
+    case "newRial":
+      return [
+        { amount: b.newRial, unit: "rial" },
+        { amount: BigInt(b.qeran), unit: "qeran" },
+      ];
+    case "newToman":
+      return [
+        { amount: b.newToman, unit: "toman" },
+        { amount: b.newTomanRem, unit: "rial" },
+        { amount: BigInt(b.qeran), unit: "qeran" },
+      ];
+  }
+};
+
+/**
+ * Formal wording for cheques and invoices, e.g.
+ * "فقط پنجاه و پنج ریال و چهل قِران تمام" / "Fifty-five rials and forty qerans only".
+ * Zero sub-unit parts are left out.
+ */
+export const chequeWording = (b: UnitBreakdown, unit: Unit, lang: Lang): string => {
+  const [main, ...rest] = partsFor(b, unit);
+  const parts = [main, ...rest.filter((p) => p.amount !== 0n)];
+  if (lang === "fa") {
+    const body = parts
+      .map((p) => `${bigIntToPersianWords(p.amount)} ${unitWordsFa[p.unit]}`)
+      .join(" و ");
+    return `فقط ${body} تمام`;
+  }
+  const body = parts
+    .map((p) => `${bigIntToEnglishWords(p.amount)} ${unitWordsEn[p.unit][p.amount === 1n ? 0 : 1]}`)
+    .join(" and ");
+  return `${body.charAt(0).toUpperCase()}${body.slice(1)} only`;
+};
@@ -0,0 +1,113 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  OLD_PER_NEW,
+  OLD_PER_QERAN,
+  breakdownOld,
+  newQeranToOld,
+  oldToNewQeran,
+  parseQeranInputToNumber,
+  roundToQeran,
+} from "./convert";
+import { formatBigInt } from "./digits";
+
+const huge = 10n ** 40n + 123456789n * 100n; // whole qerans, far past Number.MAX_SAFE_INTEGER
+
+test("10,000 old rial make a new rial, 100 old rial a qeran", () => {
+  assert.equal(OLD_PER_NEW, 10000n);
+  assert.equal(OLD_PER_QERAN, 100n);
+  assert.equal(OLD_PER_NEW / OLD_PER_QERAN, 100n);
+});
+
+test("oldToNewQeran at zero and at the qeran and new-rial boundaries", () => {
+  assert.deepEqual(oldToNewQeran(0n), { newRial: 0n, qeran: 0 });
+  assert.deepEqual(oldToNewQeran(99n), { newRial: 0n, qeran: 0 });
+  assert.deepEqual(oldToNewQeran(100n), { newRial: 0n, qeran: 1 });
+  assert.deepEqual(oldToNewQeran(9999n), { newRial: 0n, qeran: 99 });
+  assert.deepEqual(oldToNewQeran(10000n), { newRial: 1n, qeran: 0 });
+  assert.deepEqual(oldToNewQeran(554000n), { newRial: 55n, qeran: 40 });
+});
+
+test("newQeranToOld is exact and inverts oldToNewQeran on whole qerans", () => {
+  assert.equal(newQeranToOld(0n, 0), 0n);
+  assert.equal(newQeranToOld(0n, 99), 9900n);
+  assert.equal(newQeranToOld(1n, 0), 10000n);
+  assert.equal(newQeranToOld(55n, 40), 554000n);
+  for (const old of [0n, 100n, 9900n, 10000n, huge]) {
+    const { newRial, qeran } = oldToNewQeran(old);
+    assert.equal(newQeranToOld(newRial, qeran), old);
+  }
+});
+
+test("huge amounts stay exact in both directions", () => {
+  const { newRial, qeran } = oldToNewQeran(huge);
+  assert.equal(newRial, 10n ** 36n + 1234567n);
+  assert.equal(qeran, 89);
+  assert.equal(newQeranToOld(10n ** 36n, 1), 10n ** 40n + 100n);
+});
+
+test("formatBigInt groups in each language's digits", () => {
+  assert.equal(formatBigInt(0n, "en"), "0");
+  assert.equal(formatBigInt(9999n, "en"), "9,999");
+  assert.equal(formatBigInt(10000n, "fa"), "۱۰٬۰۰۰");
+  assert.equal(formatBigInt(-1234567n, "en"), "-1,234,567");
+  assert.equal(formatBigInt(10n ** 21n, "en"), "1,000,000,000,000,000,000,000");
+});
+
+test("parseQeranInputToNumber clamps to 0..99", () => {
+  assert.equal(parseQeranInputToNumber(""), 0);
+  assert.equal(parseQeranInputToNumber("0"), 0);
+  assert.equal(parseQeranInputToNumber("۹۹"), 99);
+  assert.equal(parseQeranInputToNumber("100"), 99);
+  assert.equal(parseQeranInputToNumber("٤٠"), 40);
+  assert.equal(parseQeranInputToNumber("-5"), 5);
+});
+
+test("roundToQeran: truncate drops the part below one qeran", () => {
+  assert.equal(roundToQeran(199n), 1n);
+  assert.equal(roundToQeran(199n, "truncate"), 1n);
+  assert.equal(roundToQeran(-199n, "truncate"), -1n);
+});
+
+test("roundToQeran: halfUp rounds 50 and above up", () => {
+  assert.equal(roundToQeran(149n, "halfUp"), 1n);
+  assert.equal(roundToQeran(150n, "halfUp"), 2n);
+  assert.equal(roundToQeran(250n, "halfUp"), 3n);
+  assert.equal(roundToQeran(-150n, "halfUp"), -2n);
+});
+
+test("roundToQeran: halfEven sends exact halves to the even qeran", () => {
+  assert.equal(roundToQeran(50n, "halfEven"), 0n); // 0 is even: stays
+  assert.equal(roundToQeran(150n, "halfEven"), 2n); // 1 is odd: up
+  assert.equal(roundToQeran(250n, "halfEven"), 2n); // 2 is even: stays
+  assert.equal(roundToQeran(350n, "halfEven"), 4n);
+  assert.equal(roundToQeran(251n, "halfEven"), 3n); // past the half: up
+  assert.equal(roundToQeran(149n, "halfEven"), 1n);
+  assert.equal(roundToQeran(-150n, "halfEven"), -2n);
+});
+
+test("roundToQeran: ceiling rounds any remainder up, even 1 old rial", () => {
+  assert.equal(roundToQeran(100n, "ceiling"), 1n);
+  assert.equal(roundToQeran(101n, "ceiling"), 2n);
+  assert.equal(roundToQeran(1n, "ceiling"), 1n);
+  assert.equal(roundToQeran(0n, "ceiling"), 0n);
+  assert.equal(roundToQeran(9999n * 100n + 1n, "ceiling"), 10000n);
+});
+
+test("breakdownOld reports what rounding dropped or added", () => {
+  const exact = breakdownOld(554000n, "ceiling");
+  assert.equal(exact.exact, true);
+  assert.equal(exact.roundingDiff, 0n);
+
+  const dropped = breakdownOld(554099n, "truncate");
+  assert.deepEqual([dropped.newRial, dropped.qeran], [55n, 40]);
+  assert.equal(dropped.roundingDiff, 99n);
+  assert.equal(dropped.subQeranRem, 99n);
+  assert.equal(dropped.exact, false);
+
+  const added = breakdownOld(9999n * 100n + 1n, "ceiling");
+  assert.deepEqual([added.newRial, added.qeran], [100n, 0]);
+  assert.equal(added.roundTripOld, 1000000n);
+  assert.equal(added.roundingDiff, -99n);
+  assert.equal(added.exact, false);
+});
@@ -0,0 +1,154 @@
+/* ======================= Conversions with BigInt ======================= */
+import { onlyDigits } from "./digits";
+import { parseAmountText, type AmountParseResult } from "./parse";
+
+/** 10,000 old rial = 1 new rial */
+export const OLD_PER_NEW = 10000n;
+/** 100 old rial = 1 qeran (100 qeran = 1 new rial) */
+export const OLD_PER_QERAN = 100n;
+
+/** Parse an old-rial field (digits or Persian words). Empty or invalid → 0n. */
+export const parseOldRialInputToBig = (val: string): bigint => {
+  const r = parseAmountText(val);
+  return r.ok ? r.value : 0n;
+};
+
+/** Parse a new-rial field (digits or Persian words). Empty or invalid → 0n. */
+export const parseNewRialInputToBig = (val: string): bigint => {
+  const r = parseAmountText(val);
+  return r.ok ? r.value : 0n;
+};
+
+/** Parse a qeran field, clamped to 0..99. */
+export const parseQeranInputToNumber = (val: string): number => {
+  const raw = onlyDigits(val);
+  const n = raw ? Number(raw) : 0;
+  return Math.max(0, Math.min(99, Math.floor(n)));
+};
+
+export type NewQeran = { newRial: bigint; qeran: number };
+
+/** How the part below one qeran (0..99 old rial) is handled. */
+export type RoundingMode = "truncate" | "halfUp" | "halfEven" | "ceiling";
+export const ROUNDING_MODES: RoundingMode[] = ["truncate", "halfUp", "halfEven", "ceiling"];
+
+/** Round an old-rial amount to a whole number of qeran. Applies to the magnitude; the sign is kept. */
+export const roundToQeran = (oldRial: bigint, mode: RoundingMode = "truncate"): bigint => {
+  const neg = oldRial < 0n;
+  const abs = neg ? -oldRial : oldRial;
+  let q = abs / OLD_PER_QERAN;
+  const r = abs % OLD_PER_QERAN;
+  const half = OLD_PER_QERAN / 2n;
+  if (
+    (mode === "ceiling" && r > 0n) ||
+    (mode === "halfUp" && r >= half) ||
+    (mode === "halfEven" && (r > half || (r === half && q % 2n === 1n)))
+  )
+    q++;
+  return neg ? -q : q;
+};
+
+/**
+ * Old rial → new rial + qeran. Anything below one qeran (< 100 old rial) is
+ * truncated by default; pass a rounding mode to round it instead.
+ */
+export const oldToNewQeran = (oldRial: bigint, mode: RoundingMode = "truncate"): NewQeran => {
+  const totalQeran = roundToQeran(oldRial, mode);
+  const perNew = OLD_PER_NEW / OLD_PER_QERAN;
+  const newRial = totalQeran / perNew; // bigint
+  const qeran = Number(totalQeran % perNew); // 0..99 safe as number
+  return { newRial, qeran };
+};
+
+/** New rial + qeran → old rial (exact). */
+export const newQeranToOld = (newRial: bigint, qeran: number): bigint =>
+  newRial * OLD_PER_NEW + BigInt(qeran) * OLD_PER_QERAN;
+
+/* ======================= Units (toman / rial, old / new) ======================= */
+/** 1 old toman = 10 old rial */
+export const OLD_PER_TOMAN = 10n;
+/** 1 new toman = 10 new rial = 100,000 old rial */
+export const OLD_PER_NEW_TOMAN = OLD_PER_NEW * 10n;
+
+export type Unit = "oldToman" | "oldRial" | "newToman" | "newRial";
+export const UNITS: Unit[] = ["oldToman", "oldRial", "newToman", "newRial"];
+
+/** True for the pre-redenomination units. */
+export const isOldUnit = (unit: Unit) => unit === "oldToman" || unit === "oldRial";
+
+/** Amount in `unit` → old rial (exact). `qeran` only applies to "newRial". */
+export const unitToOld = (unit: Unit, amount: bigint, qeran = 0): bigint => {
+  switch (unit) {
+    case "oldRial":
+      return amount;
+    case "oldToman":
+      return amount * OLD_PER_TOMAN;
+    case "newRial":
+      return newQeranToOld(amount, qeran);
+    case "newToman":
+      return amount * OLD_PER_NEW_TOMAN;
+  }
+};
+
+// how many decimal places of each unit make up one old rial
+const UNIT_DECIMALS: Record<Unit, number> = {
+  oldRial: 0,
+  oldToman: 1,
+  newRial: 4,
+  newToman: 5,
+};
+
+/**
+ * Parse a field that holds an amount in `unit` and return it in old rials, so
+ * "5.5" in a new-toman field or "55.4" in a new-rial field (55 rial 40 qeran) stay exact.
+ */
+export const parseAmountInUnit = (val: string, unit: Unit): AmountParseResult =>
+  parseAmountText(val, {
+    unit: unit === "oldToman" || unit === "newToman" ? "toman" : "rial",
+    decimals: UNIT_DECIMALS[unit],
+  });
+
+/**
+ * An old-rial amount written exactly in `unit`: whole part and fraction digits
+ * (trailing zeros dropped, "" when whole). 55,400 old rial → newRial { int: 5n, frac: "54" }.
+ */
+export const oldToUnitDecimal = (oldRial: bigint, unit: Unit): { int: bigint; frac: string } => {
+  const per = unitToOld(unit, 1n);
+  const decimals = UNIT_DECIMALS[unit];
+  const rem = oldRial % per;
+  const frac = rem === 0n ? "" : rem.toString().padStart(decimals, "0").replace(/0+$/, "");
+  return { int: oldRial / per, frac };
+};
+
+export type UnitBreakdown = {
+  oldRial: bigint;
+  oldToman: bigint;
+  oldTomanRem: bigint; // old rials left over below one old toman (0..9)
+  newRial: bigint;
+  qeran: number;
+  subQeranRem: bigint; // old rials below one qeran in the input (0..99)
+  roundTripOld: bigint; // newQeranToOld(newRial, qeran)
+  roundingDiff: bigint; // oldRial - roundTripOld: > 0 dropped, < 0 added by rounding up
+  exact: boolean; // the new amount converts back to exactly oldRial
+  newToman: bigint;
+  newTomanRem: bigint; // new rials left over below one new toman (0..9), qeran not included
+};
+
+/** Express an old-rial amount in every unit, keeping the remainders that don't fit. */
+export const breakdownOld = (oldRial: bigint, mode: RoundingMode = "truncate"): UnitBreakdown => {
+  const { newRial, qeran } = oldToNewQeran(oldRial, mode);
+  const roundTripOld = newQeranToOld(newRial, qeran);
+  return {
+    oldRial,
+    oldToman: oldRial / OLD_PER_TOMAN,
+    oldTomanRem: oldRial % OLD_PER_TOMAN,
+    newRial,
+    qeran,
+    subQeranRem: oldRial % OLD_PER_QERAN,
+    roundTripOld,
+    roundingDiff: oldRial - roundTripOld,
+    exact: roundTripOld === oldRial,
+    newToman: newRial / 10n,
+    newTomanRem: newRial % 10n,
+  };
+};
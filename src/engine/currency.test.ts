@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { importRates, ratesToCsv, ratesToJson, type CurrencyRate } from "./currency";
+
+const rates: CurrencyRate[] = [
+  { code: "USD", rate: "1050000", date: "2025-01-05", source: "Bank Melli; branch 2" },
+  { code: "EUR", rate: "1150000.5", date: "2025-01-06", source: 'Exchange "Ferdowsi", Tehran' },
+  { code: "AED", rate: "285900", date: "2025-01-06", source: "" },
+];
+
+test("ratesToCsv → importRates round-trips, even with ; and quotes in the notes", () => {
+  assert.deepEqual(importRates(ratesToCsv(rates)), { ok: true, rates });
+});
+
+test("ratesToJson → importRates round-trips", () => {
+  assert.deepEqual(importRates(ratesToJson(rates)), { ok: true, rates });
+});
+
+test("hand-written CSV without a header still detects ; as the delimiter", () => {
+  assert.deepEqual(importRates("usd;۱٬۰۵۰٬۰۰۰;2025-01-05;office"), {
+    ok: true,
+    rates: [{ code: "USD", rate: "1050000", date: "2025-01-05", source: "office" }],
+  });
+});
+
+test("a bad line is reported with its number", () => {
+  const r = importRates("code,rate_old_rial,date,source\nUSD,abc,2025-01-05,x");
+  assert.deepEqual(r, { ok: false, line: 2, fragment: "USD,abc,2025-01-05,x" });
+});
@@ -0,0 +1,193 @@
+/* ======================= Foreign currencies at hand-entered rates ======================= */
+import { normalizeDigitsToAscii } from "./digits";
+import { type RoundingMode } from "./convert";
+import { rational, type Rational } from "./expr";
+import { csvCell, detectDelimiter, splitCsvLine } from "./batch";
+
+export type CurrencyCode = "USD" | "EUR" | "AED";
+export const CURRENCIES: CurrencyCode[] = ["USD", "EUR", "AED"];
+
+/** Cents / fils: foreign amounts are shown to this many decimals. */
+export const FOREIGN_DECIMALS = 2;
+
+export type CurrencyRate = {
+  code: CurrencyCode;
+  rate: string; // old rials for one unit, as typed: "1050000" or "285900.5"
+  date: string; // YYYY-MM-DD the rate was read
+  source: string; // free note: exchange office, bank, website…
+};
+
+export const isCurrencyCode = (v: unknown): v is CurrencyCode =>
+  CURRENCIES.includes(v as CurrencyCode);
+
+/** "1,050,000" / "۲۸۵٬۹۰۰٫۵" → "1050000" / "285900.5": ASCII digits, no grouping. */
+export const cleanRate = (text: string) =>
+  normalizeDigitsToAscii(text)
+    .replace(/[,٬'\s]/g, "")
+    .replace(/٫/g, ".");
+
+/** A rate as typed → exact positive rational, or null. */
+export const parseRate = (text: string): Rational | null => {
+  const m = cleanRate(text).match(/^(\d+)(?:\.(\d+))?$/);
+  if (!m) return null;
+  const frac = m[2] ?? "";
+  const r = rational(BigInt(m[1] + frac), 10n ** BigInt(frac.length));
+  return r.num > 0n ? r : null;
+};
+
+/** Round a non-negative rational to a whole number. */
+export const roundRational = (r: Rational, mode: RoundingMode = "truncate"): bigint => {
+  const q = r.num / r.den;
+  const rem2 = (r.num % r.den) * 2n;
+  if (
+    (mode === "ceiling" && rem2 > 0n) ||
+    (mode === "halfUp" && rem2 >= r.den) ||
+    (mode === "halfEven" && (rem2 > r.den || (rem2 === r.den && q % 2n === 1n)))
+  )
+    return q + 1n;
+  return q;
+};
+
+/**
+ * A non-negative rational to `decimals` places: whole part, fraction digits
+ * (always `decimals` long) and whether that is exact.
+ */
+export const rationalToDecimal = (
+  r: Rational,
+  decimals = FOREIGN_DECIMALS,
+  mode: RoundingMode = "halfUp"
+): { int: bigint; frac: string; exact: boolean } => {
+  const scale = 10n ** BigInt(decimals);
+  const scaled = rational(r.num * scale, r.den);
+  const n = roundRational(scaled, mode);
+  return {
+    int: n / scale,
+    frac: decimals ? (n % scale).toString().padStart(decimals, "0") : "",
+    exact: scaled.den === 1n,
+  };
+};
+
+/** Foreign amount → old rials, exactly. */
+export const foreignToOld = (amount: Rational, rate: Rational): Rational =>
+  rational(amount.num * rate.num, amount.den * rate.den);
+
+/** Old rials → foreign amount, exactly. */
+export const oldToForeign = (oldRial: Rational, rate: Rational): Rational =>
+  rational(oldRial.num * rate.den, oldRial.den * rate.num);
+
+/* ---------- age ---------- */
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** A real calendar date written YYYY-MM-DD. */
+export const isIsoDate = (s: string) => {
+  const m = s.match(ISO_DATE);
+  if (!m) return false;
+  const d = new Date(Date.UTC(+m[1], +m[2] - 1, +m[3]));
+  return d.getUTCFullYear() === +m[1] && d.getUTCMonth() === +m[2] - 1 && d.getUTCDate() === +m[3];
+};
+
+/** Today's local date as YYYY-MM-DD. */
+export const todayIso = (now = new Date()) => {
+  const two = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${two(now.getMonth() + 1)}-${two(now.getDate())}`;
+};
+
+/** Whole days from `date` to today (local calendar); null for a bad date. */
+export const rateAgeDays = (date: string, now = new Date()): number | null => {
+  if (!isIsoDate(date)) return null;
+  const [y, m, d] = date.split("-").map(Number);
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((today - Date.UTC(y, m - 1, d)) / 86_400_000);
+};
+
+/* ---------- import / export ---------- */
+
+export const RATES_FILE_VERSION = 1;
+
+export type RatesImportResult =
+  | { ok: true; rates: CurrencyRate[] }
+  | { ok: false; line: number; fragment: string }; // line 0: the whole text
+
+// one rate per currency; a later entry for the same code replaces an earlier one
+const byCode = (rates: CurrencyRate[]) =>
+  CURRENCIES.flatMap((code) => rates.filter((r) => r.code === code).slice(-1));
+
+const checkRate = (code: string, rate: string, date: string, source: string): CurrencyRate | null => {
+  const c = code.trim().toUpperCase();
+  if (!isCurrencyCode(c) || !parseRate(rate) || !isIsoDate(date.trim())) return null;
+  return { code: c, rate: cleanRate(rate), date: date.trim(), source: source.trim() };
+};
+
+// a JSON object whose fields can then be checked one by one
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** A stored or imported entry with a known code, a usable rate and a real date. */
+export const isCurrencyRate = (r: unknown): r is CurrencyRate =>
+  isRecord(r) &&
+  isCurrencyCode(r.code) &&
+  typeof r.rate === "string" &&
+  parseRate(r.rate) !== null &&
+  typeof r.date === "string" &&
+  isIsoDate(r.date) &&
+  typeof r.source === "string";
+
+/** `{ version, rates: [...] }` with rates as strings, so no precision is lost. */
+export const ratesToJson = (rates: CurrencyRate[]) =>
+  JSON.stringify({ version: RATES_FILE_VERSION, rates }, null, 2);
+
+const RATES_CSV_HEADER = "code,rate_old_rial,date,source";
+
+export const ratesToCsv = (rates: CurrencyRate[]) =>
+  [
+    RATES_CSV_HEADER,
+    ...rates.map((r) => [r.code, r.rate, r.date, r.source].map(csvCell).join(",")),
+  ].join("\n");
+
+/** Read rates exported as JSON (object or bare array) or CSV (code, rate, date, source; header optional). */
+export const importRates = (text: string): RatesImportResult => {
+  const trimmed = text.trim();
+  if (!trimmed) return { ok: false, line: 0, fragment: "" };
+
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      return { ok: false, line: 0, fragment: trimmed.slice(0, 40) };
+    }
+    const list: unknown[] | null = Array.isArray(data)
+      ? data
+      : isRecord(data) && Array.isArray(data.rates)
+        ? data.rates
+        : null;
+    if (!list) return { ok: false, line: 0, fragment: trimmed.slice(0, 40) };
+    const rates: CurrencyRate[] = [];
+    for (const [i, e] of list.entries()) {
+      const r: Record<string, unknown> = isRecord(e) ? e : {};
+      const rate = typeof r.rate === "number" ? String(r.rate) : r.rate;
+      const ok =
+        typeof r.code === "string" && typeof rate === "string" && typeof r.date === "string"
+          ? checkRate(r.code, rate, r.date, typeof r.source === "string" ? r.source : "")
+          : null;
+      if (!ok) return { ok: false, line: i + 1, fragment: JSON.stringify(e) };
+      rates.push(ok);
+    }
+    return { ok: true, rates: byCode(rates) };
+  }
+
+  // our own export is always comma-separated, whatever the notes contain
+  const delimiter = trimmed.split(/\r?\n/)[0].trim() === RATES_CSV_HEADER ? "," : detectDelimiter(trimmed);
+  const rates: CurrencyRate[] = [];
+  const lines = text.split(/\r?\n/);
+  for (const [i, raw] of lines.entries()) {
+    if (!raw.trim()) continue;
+    const [code = "", rate = "", date = "", ...source] = splitCsvLine(raw, delimiter);
+    if (rates.length === 0 && /^\s*code\s*$/i.test(code)) continue; // header
+    const ok = checkRate(code, rate, date, source.join(delimiter));
+    if (!ok) return { ok: false, line: i + 1, fragment: raw.trim() };
+    rates.push(ok);
+  }
+  return rates.length ? { ok: true, rates: byCode(rates) } : { ok: false, line: 0, fragment: "" };
+};
@@ -0,0 +1,25 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { formatNumber, groupPlain, mapDigits, normalizeDigitsToAscii, onlyDigits } from "./digits";
+import { parseAmountText } from "./parse";
+
+test("normalizeDigitsToAscii: Persian and Arabic-Indic digits mixed in one string", () => {
+  assert.equal(normalizeDigitsToAscii("۱٢۳٤"), "1234");
+  assert.equal(normalizeDigitsToAscii("ab ۵٫٥"), "ab 5٫5");
+  assert.equal(onlyDigits("۱٬٢۰۰,000"), "1200000");
+});
+
+test("mixed-script amounts parse like ASCII ones", () => {
+  assert.deepEqual(parseAmountText("۱٬٢٣۴"), { ok: true, value: 1234n });
+  assert.deepEqual(parseAmountText("٥۰۰ هزار"), { ok: true, value: 500000n });
+});
+
+test("grouping and digit scripts", () => {
+  assert.equal(groupPlain("", ","), "0");
+  assert.equal(groupPlain("1234567", ","), "1,234,567");
+  assert.equal(groupPlain("12345678", " ", 4), "1234 5678");
+  assert.equal(mapDigits("2024", "persian"), "۲۰۲۴");
+  assert.equal(mapDigits("2024", "arabic"), "٢٠٢٤");
+  assert.equal(formatNumber(0n, { digits: "persian", separator: "٬", groupSize: 3 }), "۰");
+  assert.equal(formatNumber(10n ** 24n, { digits: "latin", separator: "", groupSize: 3 }), "1" + "0".repeat(24));
+});
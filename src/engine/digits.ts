@@ -0,0 +1,106 @@
+/* ======================= Digits, grouping, locale formatting ======================= */
+export type Lang = "fa" | "en";
+
+export type DigitScript = "latin" | "persian" | "arabic";
+
+/** How amounts are displayed: digit script, grouping separator and group size. */
+export type NumberFormat = { digits: DigitScript; separator: string; groupSize: number };
+
+/** Wording of the text exports, by the app's message keys so each UI language supplies its own. */
+export type TextLabelKey =
+  | "old_rial"
+  | "new_rial"
+  | "and"
+  | "qeran"
+  | "summary_toman"
+  | "summary_words"
+  | "batch_error"
+  | "invoice_subtotal"
+  | "invoice_discount_total"
+  | "invoice_net"
+  | "invoice_vat_amount"
+  | "invoice_total"
+  | "invoice_invalid";
+export type TextLabels = (key: TextLabelKey, params?: Record<string, string>) => string;
+
+/** The formats formatBigInt uses for each words/label language. */
+export const NUMBER_FORMATS: Record<Lang, NumberFormat> = {
+  fa: { digits: "persian", separator: "٬", groupSize: 3 },
+  en: { digits: "latin", separator: ",", groupSize: 3 },
+};
+
+export const DIGIT_SCRIPTS: DigitScript[] = ["persian", "arabic", "latin"];
+
+/** Grouping separators offered in settings: Arabic thousands sign, comma, no-break space, apostrophe, none. */
+export const GROUP_SEPARATORS = ["٬", ",", "\u00a0", "'", ""];
+export const GROUP_SIZES = [3, 4];
+
+export const digitsFa = "۰۱۲۳۴۵۶۷۸۹";
+export const digitsAr = "٠١٢٣٤٥٦٧٨٩";
+
+/** Replace Persian (۰-۹) and Arabic-Indic (٠-٩) digits with ASCII 0-9; other chars are kept. */
+export const normalizeDigitsToAscii = (s: string) =>
+  s
+    .split("")
+    .map((ch) => {
+      const fa = digitsFa.indexOf(ch);
+      if (fa !== -1) return String(fa);
+      const ar = digitsAr.indexOf(ch);
+      if (ar !== -1) return String(ar);
+      return ch;
+    })
+    .join("");
+
+/** Keep only digits (any script), returned as a plain ASCII digit string. */
+export const onlyDigits = (s: string) =>
+  (normalizeDigitsToAscii(s).match(/[0-9]+/g)?.join("") ?? "");
+
+/** True for a single digit character in any supported script. */
+export const isDigitChar = (ch: string) => /^[0-9۰-۹٠-٩]$/.test(ch);
+
+/** Drop invisible direction marks that come along when copying RTL text (ZWNJ is kept: words need it). */
+export const stripBidiMarks = (s: string) =>
+  s.replace(/[\u200b\u200e\u200f\u202a-\u202e\u2066-\u2069\ufeff]/g, "");
+
+/** Group a plain digit-string (no sign, no separators) every `size` digits from the end. "" → "0". */
+export const groupPlain = (plain: string, sep: string, size = 3) => {
+  if (!plain) return "0";
+  let out = "";
+  let cnt = 0;
+  for (let i = plain.length - 1; i >= 0; i--) {
+    out = plain[i] + out;
+    cnt++;
+    if (i > 0 && size > 0 && cnt % size === 0) out = sep + out;
+  }
+  return out;
+};
+
+/** Map ASCII 0-9 to the given digit script. */
+export const mapDigits = (s: string, script: DigitScript) =>
+  script === "latin"
+    ? s
+    : s.replace(/[0-9]/g, (d) => (script === "persian" ? digitsFa : digitsAr)[Number(d)]);
+
+/** Format a BigInt with the given digit script and grouping. */
+export const formatNumber = (n: bigint, fmt: NumberFormat) => {
+  const sign = n < 0n ? "-" : "";
+  const abs = n < 0n ? -n : n;
+  return mapDigits(sign + groupPlain(abs.toString(), fmt.separator, fmt.groupSize), fmt.digits);
+};
+
+/** The decimal point that goes with a format: "." with Latin digits, "٫" otherwise. */
+export const decimalPoint = (fmt: NumberFormat) => (fmt.digits === "latin" ? "." : "٫");
+
+/** Whole part grouped, then the fraction digits (if any) after the format's decimal point. */
+export const formatDecimal = (int: bigint, frac: string, fmt: NumberFormat) =>
+  formatNumber(int, fmt) + (frac ? decimalPoint(fmt) + mapDigits(frac, fmt.digits) : "");
+
+/** Map ASCII 0-9 to Persian digits when `lang` is "fa". */
+export const mapDigitsForLang = (s: string, lang: Lang) => mapDigits(s, NUMBER_FORMATS[lang].digits);
+
+/** Format a BigInt with grouping ("٬" for fa, "," for en) and locale digits. */
+export const formatBigInt = (n: bigint, lang: Lang) => formatNumber(n, NUMBER_FORMATS[lang]);
+
+/** Format a small number (0..999) with locale digits (used for qeran). */
+export const formatSmall = (n: number, lang: Lang) =>
+  mapDigitsForLang(n.toString(), lang);
@@ -0,0 +1,168 @@
+/* ======================= Exact arithmetic expressions ======================= */
+
+/** Exact rational number; `den` is always positive. */
+export type Rational = { num: bigint; den: bigint };
+
+export type ExprErrorCode = "syntax" | "div_zero";
+
+export type ExprResult =
+  | { ok: true; value: Rational }
+  | { ok: false; code: ExprErrorCode; fragment: string };
+
+const gcd = (a: bigint, b: bigint): bigint => {
+  a = a < 0n ? -a : a;
+  while (b) [a, b] = [b, a % b];
+  return a;
+};
+
+export const rational = (num: bigint, den = 1n): Rational => {
+  if (den < 0n) [num, den] = [-num, -den];
+  const g = gcd(num, den) || 1n;
+  return { num: num / g, den: den / g };
+};
+
+const add = (a: Rational, b: Rational) => rational(a.num * b.den + b.num * a.den, a.den * b.den);
+const sub = (a: Rational, b: Rational) => rational(a.num * b.den - b.num * a.den, a.den * b.den);
+const mul = (a: Rational, b: Rational) => rational(a.num * b.num, a.den * b.den);
+const percentOf = (a: Rational, pct: Rational) => mul(a, rational(pct.num, pct.den * 100n));
+
+// operator spellings from different keyboards
+const OPS: Record<string, string> = {
+  "+": "+",
+  "-": "-",
+  "−": "-",
+  "–": "-",
+  "*": "*",
+  "×": "*",
+  "/": "/",
+  "÷": "/",
+  "(": "(",
+  ")": ")",
+  "%": "%",
+  "٪": "%",
+};
+
+/** True if the text uses any arithmetic operator, parenthesis or percent sign. */
+export const isExpression = (s: string) => /[+\-−–*×/÷()%٪]/.test(s);
+
+type Token = { op: string } | { operand: string };
+
+const tokenize = (s: string): Token[] => {
+  const out: Token[] = [];
+  let cur = "";
+  const flush = () => {
+    if (cur.trim()) out.push({ operand: cur.trim() });
+    cur = "";
+  };
+  for (const ch of s) {
+    if (ch in OPS) {
+      flush();
+      out.push({ op: OPS[ch] });
+    } else cur += ch;
+  }
+  flush();
+  return out;
+};
+
+class ExprError extends Error {
+  constructor(public code: ExprErrorCode, public fragment: string) {
+    super(code);
+  }
+}
+
+/**
+ * Evaluate + − × ÷, parentheses and percentages exactly. Operands are parsed
+ * by `parseOperand` (so digits in any script, decimals and scale words work).
+ * "a + b%" / "a − b%" add or subtract b percent of a; "a × b%" takes b percent of a;
+ * a lone "b%" is b / 100. Division is exact: the caller decides what to do with the fraction.
+ */
+export const evaluateExpression = (
+  text: string,
+  parseOperand: (s: string) => Rational | null
+): ExprResult => {
+  const tokens = tokenize(text);
+  let i = 0;
+  const peekOp = () => {
+    const t = tokens[i];
+    return t && "op" in t ? t.op : null;
+  };
+  const fail = (code: ExprErrorCode = "syntax"): never => {
+    const t = tokens[i];
+    throw new ExprError(code, t ? ("op" in t ? t.op : t.operand) : text.trim());
+  };
+
+  // a factor remembers a trailing % so + and − can make it relative
+  type Val = { v: Rational; pct: boolean };
+
+  const primary = (): Rational => {
+    const t = tokens[i];
+    if (!t) return fail();
+    if ("operand" in t) {
+      const v = parseOperand(t.operand);
+      if (!v) return fail();
+      i++;
+      return v;
+    }
+    if (t.op === "(") {
+      i++;
+      const v = expr();
+      if (peekOp() !== ")") return fail();
+      i++;
+      return v;
+    }
+    return fail();
+  };
+
+  const factor = (): Val => {
+    const op = peekOp();
+    if (op === "-" || op === "+") {
+      i++;
+      const f = factor();
+      return op === "-" ? { v: rational(-f.v.num, f.v.den), pct: f.pct } : f;
+    }
+    const v = primary();
+    if (peekOp() === "%") {
+      i++;
+      return { v, pct: true };
+    }
+    return { v, pct: false };
+  };
+
+  const asPlain = (x: Val) => (x.pct ? rational(x.v.num, x.v.den * 100n) : x.v);
+
+  const term = (): Val => {
+    let left = factor();
+    for (let op = peekOp(); op === "*" || op === "/"; op = peekOp()) {
+      i++;
+      const right = factor();
+      if (op === "*") {
+        left = { v: right.pct ? percentOf(asPlain(left), right.v) : mul(asPlain(left), right.v), pct: false };
+      } else {
+        const r = asPlain(right);
+        if (r.num === 0n) fail("div_zero");
+        left = { v: mul(asPlain(left), rational(r.den, r.num)), pct: false };
+      }
+    }
+    return left;
+  };
+
+  const expr = (): Rational => {
+    let left = asPlain(term());
+    for (let op = peekOp(); op === "+" || op === "-"; op = peekOp()) {
+      i++;
+      const right = term();
+      const r = right.pct ? percentOf(left, right.v) : right.v;
+      left = op === "+" ? add(left, r) : sub(left, r);
+    }
+    return left;
+  };
+
+  try {
+    const value = expr();
+    if (i < tokens.length) fail();
+    return { ok: true, value };
+  } catch (e) {
+    if (e instanceof ExprError) return { ok: false, code: e.code, fragment: e.fragment };
+    throw e;
+  }
+};
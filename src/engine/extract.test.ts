@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findAmounts } from "./extract";
+
+const found = (text: string) => findAmounts(text).map((a) => [a.text, a.oldRial]);
+
+test("k/M/B right after a number is a scale, with or without a unit word", () => {
+  assert.deepEqual(found("IRR 1,000,000 and 2M rial"), [
+    ["IRR 1,000,000", 1000000n],
+    ["2M rial", 2000000n],
+  ]);
+  assert.deepEqual(found("50k تومان"), [["50k تومان", 500000n]]);
+  assert.deepEqual(found("total 1.5m"), [["1.5m", 1500000n]]);
+});
+
+test("numbers glued to other letters are codes, not amounts", () => {
+  assert.deepEqual(found("code 12ab and A1234 and 2Mx"), []);
+  assert.deepEqual(found("model 5km"), []);
+});
+
+test("Persian messages: unit words, dates and card numbers", () => {
+  assert.deepEqual(found("مبلغ ۱٬۲۵۰٬۰۰۰ ریال در ۱۴۰۳/۰۵/۱۲ از کارت ۶۰۳۷-۹۹۱۲-۳۴۵۶-۷۸۹۰"), [
+    ["۱٬۲۵۰٬۰۰۰ ریال", 1250000n],
+  ]);
+  assert.deepEqual(found("۵۰ هزار تومان"), [["۵۰ هزار تومان", 500000n]]);
+});
@@ -0,0 +1,89 @@
+/* ======================= Amounts in free text (SMS, bank messages, invoices) ======================= */
+import { normalizeDigitsToAscii } from "./digits";
+import { parseAmountText } from "./parse";
+
+export type TextUnit = "rial" | "toman" | "qeran";
+
+export type AmountCandidate = {
+  start: number; // span in the original text, number through unit word
+  end: number;
+  text: string; // "۱٬۲۵۰٬۰۰۰ ریال"
+  unit: TextUnit | null; // null: a bare number, read as rial
+  oldRial: bigint;
+};
+
+// things that look numeric but aren't amounts; their digits are never offered
+const NOT_AMOUNTS: RegExp[] = [
+  /\d{2,4}[/\-.]\d{1,2}[/\-.]\d{1,4}/g, // dates: 1403/05/12, 2024-08-02
+  /\d{1,2}:\d{2}(?::\d{2})?/g, // times: 14:35, 08:05:10
+  /[\d*]{4}(?:[\s-]?[\d*]{4}){3}/g, // card numbers, also masked: 6037-99**-****-1234
+  /[\d*]*\*[\d*]*/g, // any other masked number: ***1234
+  /IR\s?\d{2}(?:\s?\d){22}/gi, // IBAN (Sheba)
+  /\d{11,}/g, // ungrouped long runs: accounts, phone and tracking numbers
+  /\d+(?:[.٫]\d+)?\s*[%٪]/g, // percentages
+];
+
+// a number right after one of these is an identifier, not an amount
+const ID_KEYWORD =
+  /(حساب|کارت|كارت|شماره|کد|كد|پیگیری|مرجع|سند|شناسه|تلفن|\b(?:account|acct|card|ref|code|no\.?)|#)\s*[:：.]?\s*$/i;
+
+const NUMBER = /\d{1,3}(?:[,٬']\d{3})+(?:[.٫]\d+)?|\d+(?:[.٫]\d+)?/g;
+
+// optional scale word then optional unit word, right after the number
+const SUFFIX =
+  /^\s*(هزار|میلیون|ملیون|میلیارد|ملیارد|[kKmMbB](?![a-zA-Z]))?\s*(ر[یي]ال|rials?\b|IRR\b|تومان|تومن|tomans?\b|IRT\b|ق[\u064b-\u0652]?ران|qerans?\b)?/i;
+const PREFIX_UNIT = /(IRR|IRT)\s*$/i;
+
+const unitOf = (word: string): TextUnit =>
+  /^(ر|rial|irr)/i.test(word) ? "rial" : /^(ت|toman|irt)/i.test(word) ? "toman" : "qeran";
+
+// how many fractional digits each unit has in old rials
+const UNIT_DECIMALS: Record<TextUnit, number> = { rial: 0, toman: 1, qeran: 2 };
+
+// a bare four-digit number in a plausible year range is a year
+const isYear = (digits: string) => /^(1[34]\d\d|19\d\d|20\d\d)$/.test(digits);
+
+/**
+ * Find the amounts in a pasted message, in text order. Each carries its unit word
+ * (ریال/تومان/قران, rial/toman/IRR) when there is one; dates, times, card, account
+ * and phone numbers, percentages and years are skipped.
+ */
+export const findAmounts = (text: string): AmountCandidate[] => {
+  // one char for one char, so indices still point into `text`
+  const scan = normalizeDigitsToAscii(text).replace(
+    /[\u200b\u200e\u200f\u202a-\u202e\u2066-\u2069]/g,
+    " "
+  );
+
+  const blocked = new Array<boolean>(scan.length).fill(false);
+  for (const re of NOT_AMOUNTS) {
+    for (const m of scan.matchAll(re)) blocked.fill(true, m.index!, m.index! + m[0].length);
+  }
+
+  const out: AmountCandidate[] = [];
+  for (const m of scan.matchAll(NUMBER)) {
+    const start = m.index!;
+    let end = start + m[0].length;
+    if (blocked.slice(start, end).some(Boolean)) continue;
+    // glued to letters ("A1234", "x2") it's a code, but a lone k/M/B after it is a scale ("2M")
+    const glued =
+      /[A-Za-z_]/.test(scan[end] ?? "") && !/^[kKmMbB](?![A-Za-z_])/.test(scan.slice(end));
+    if (/[A-Za-z_]/.test(scan[start - 1] ?? "") || glued) continue;
+    if (ID_KEYWORD.test(scan.slice(Math.max(0, start - 20), start))) continue;
+
+    const suffix = scan.slice(end).match(SUFFIX)!;
+    const [, scale = "", unitWord = ""] = suffix;
+    let unit: TextUnit | null = unitWord ? unitOf(unitWord) : null;
+    const numberText = scan.slice(start, end) + (scale ? ` ${scale}` : "");
+    if (unitWord || scale) end += suffix[0].length;
+    const prefix = unit ? null : scan.slice(0, start).match(PREFIX_UNIT);
+    if (prefix) unit = unitOf(prefix[1]);
+    if (!unit && !scale && isYear(m[0])) continue;
+
+    const parsed = parseAmountText(numberText, { decimals: UNIT_DECIMALS[unit ?? "rial"] });
+    if (!parsed.ok || parsed.value === 0n) continue;
+    const from = prefix ? start - prefix[0].length : start;
+    out.push({ start: from, end, text: text.slice(from, end).trim(), unit, oldRial: parsed.value });
+  }
+  return out;
+};
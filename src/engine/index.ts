@@ -0,0 +1,18 @@
+// Public API of the conversion & words engine (no React / React Native imports here)
+export * from "./digits";
+export * from "./convert";
+export * from "./words";
+export * from "./parseWords";
+export * from "./parse";
+export * from "./batch";
+export * from "./wordsEn";
+export * from "./cheque";
+export * from "./summary";
+export * from "./expr";
+export * from "./extract";
+export * from "./cash";
+export * from "./split";
+export * from "./currency";
+export * from "./invoice";
+export * from "./link";
+export * from "./table";
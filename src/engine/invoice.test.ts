@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { computeInvoice, invoiceToText, newInvoice, type Invoice, type InvoiceLine } from "./invoice";
+import type { TextLabels } from "./digits";
+
+const line = (l: Partial<InvoiceLine>): InvoiceLine => ({
+  description: "",
+  quantity: "1",
+  unitPrice: "",
+  priceUnit: "newRial",
+  discount: "",
+  ...l,
+});
+const invoice = (lines: Partial<InvoiceLine>[], o: Partial<Invoice> = {}): Invoice => ({
+  ...newInvoice(0),
+  vat: "0",
+  lines: lines.map(line),
+  ...o,
+});
+
+test("a fractional quantity times a new-rial price with qeran", () => {
+  const t = computeInvoice(invoice([{ quantity: "2.5", unitPrice: "55.40" }]));
+  // 2.5 × 554,000 old rial
+  assert.deepEqual(t.lines[0], { ok: true, gross: 1385000n, discount: 0n, net: 1385000n });
+  assert.equal(t.total, 1385000n);
+  assert.equal(t.error, null);
+});
+
+test("Persian digits and the Persian decimal point in quantities", () => {
+  const t = computeInvoice(invoice([{ quantity: "۱٫۵", unitPrice: "۱۰۰۰", priceUnit: "oldRial" }]));
+  assert.equal(t.total, 1500n);
+});
+
+test("line amounts, discounts and VAT land on whole qerans by the invoice's rounding", () => {
+  // 1 × 333.33 new rial is 3,333,300 old rial; 10% off is 2,999,970, not a whole qeran
+  const lines = [{ unitPrice: "333.33", discount: "10" }];
+  const up = computeInvoice(invoice(lines, { rounding: "halfUp", vat: "9" }));
+  assert.deepEqual(up.lines[0], { ok: true, gross: 3333300n, discount: 333300n, net: 3000000n });
+  assert.equal(up.vat, 270000n);
+
+  const down = computeInvoice(invoice(lines, { rounding: "truncate", vat: "9" }));
+  assert.deepEqual(down.lines[0], { ok: true, gross: 3333300n, discount: 333400n, net: 2999900n });
+  // 9% of 2,999,900 is 269,991: truncated to 269,900
+  assert.equal(down.vat, 269900n);
+  assert.equal(down.total, 3269800n);
+});
+
+test("gross − discount = subtotal, and the total is the subtotal plus VAT", () => {
+  const t = computeInvoice(
+    invoice(
+      [
+        { unitPrice: "100", discount: "5" },
+        { unitPrice: "50", quantity: "3" },
+      ],
+      { vat: "10" }
+    )
+  );
+  assert.equal(t.gross, 2500000n);
+  assert.equal(t.discount, 50000n);
+  assert.equal(t.subtotal, t.gross - t.discount);
+  assert.equal(t.vat, 245000n);
+  assert.equal(t.total, 2695000n);
+});
+
+test("invalid fields are reported with the first one, the rest still totalled", () => {
+  const t = computeInvoice(
+    invoice(
+      [
+        { unitPrice: "10" },
+        { unitPrice: "10", quantity: "two" },
+        { unitPrice: "abc" },
+        { unitPrice: "10", discount: "150" },
+      ],
+      { vat: "x" }
+    )
+  );
+  assert.deepEqual(t.lines[1], { ok: false, field: "quantity", fragment: "two" });
+  assert.equal(t.lines[2].ok ? null : t.lines[2].field, "unitPrice");
+  assert.deepEqual(t.lines[3], { ok: false, field: "discount", fragment: "150" });
+  assert.deepEqual(t.error, { line: 2, field: "quantity", fragment: "two" });
+  assert.equal(t.total, 100000n);
+
+  const vatOnly = computeInvoice(invoice([{ unitPrice: "10" }], { vat: "-5" }));
+  assert.deepEqual(vatOnly.error, { line: null, field: "vat", fragment: "-5" });
+});
+
+test("the text export shows the gross, the discount and the amount after it", () => {
+  const inv = invoice([{ description: "Tea", unitPrice: "100", discount: "5" }]);
+  const t: TextLabels = (key, params) => (params ? `${key}(${Object.values(params).join()})` : key);
+  assert.deepEqual(invoiceToText(inv, computeInvoice(inv), "en", t).split("\n").slice(2), [
+    "invoice_subtotal: 1,000,000 old_rial = 100 new_rial and 0 qeran",
+    "invoice_discount_total: 50,000 old_rial = 5 new_rial and 0 qeran",
+    "invoice_net: 950,000 old_rial = 95 new_rial and 0 qeran",
+    "invoice_vat_amount(0): 0 old_rial = 0 new_rial and 0 qeran",
+    "invoice_total: 950,000 old_rial = 95 new_rial and 0 qeran",
+  ]);
+});
@@ -0,0 +1,211 @@
+/* ======================= Invoices: line items, discount, VAT ======================= */
+import {
+  formatNumber,
+  mapDigits,
+  normalizeDigitsToAscii,
+  NUMBER_FORMATS,
+  type DigitScript,
+  type Lang,
+  type NumberFormat,
+  type TextLabels,
+} from "./digits";
+import { OLD_PER_NEW, OLD_PER_QERAN, parseAmountInUnit, type RoundingMode } from "./convert";
+import { rational, type Rational } from "./expr";
+import { roundRational } from "./currency";
+import { csvCell } from "./batch";
+
+/** Prices are typed in one of the two unit systems. */
+export type PriceUnit = "oldRial" | "newRial";
+
+export type InvoiceLine = {
+  description: string;
+  quantity: string; // as typed, "1" or "2.5"
+  unitPrice: string; // as typed, in `priceUnit`
+  priceUnit: PriceUnit;
+  discount: string; // percent as typed, "" for none
+};
+
+export type Invoice = {
+  id: string;
+  title: string;
+  vat: string; // percent as typed
+  rounding: RoundingMode; // how each line and the VAT are rounded to whole qerans
+  lines: InvoiceLine[];
+  createdAt: number; // ms since epoch
+  updatedAt: number;
+};
+
+export const DEFAULT_VAT = "10";
+
+export const emptyInvoiceLine = (priceUnit: PriceUnit = "newRial"): InvoiceLine => ({
+  description: "",
+  quantity: "1",
+  unitPrice: "",
+  priceUnit,
+  discount: "",
+});
+
+export const newInvoice = (now = Date.now()): Invoice => ({
+  id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  title: "",
+  vat: DEFAULT_VAT,
+  rounding: "halfUp",
+  lines: [emptyInvoiceLine()],
+  createdAt: now,
+  updatedAt: now,
+});
+
+export type InvoiceField = "quantity" | "unitPrice" | "discount" | "vat";
+
+export type InvoiceLineTotal =
+  | {
+      ok: true;
+      gross: bigint; // quantity × unit price, old rial, rounded to qeran
+      discount: bigint; // gross − net
+      net: bigint;
+    }
+  | { ok: false; field: InvoiceField; fragment: string };
+
+export type InvoiceTotals = {
+  lines: InvoiceLineTotal[];
+  gross: bigint; // sum of line grosses, before discounts
+  discount: bigint; // sum of line discounts
+  subtotal: bigint; // sum of line nets (gross − discount), what VAT is charged on
+  vat: bigint;
+  total: bigint;
+  // the first field that doesn't parse (totals then cover only the lines that do)
+  error: { line: number | null; field: InvoiceField; fragment: string } | null;
+};
+
+// "2.5" / "۲٫۵" → exact non-negative rational; "" when `empty` is given
+const decimal = (text: string, empty?: Rational): Rational | null => {
+  const s = normalizeDigitsToAscii(text).replace(/٫/g, ".").replace(/\s/g, "");
+  if (!s && empty) return empty;
+  const m = s.match(/^(\d+)(?:\.(\d+))?$/);
+  if (!m) return null;
+  const frac = m[2] ?? "";
+  return rational(BigInt(m[1] + frac), 10n ** BigInt(frac.length));
+};
+
+// an exact old-rial amount → old rial at whole qerans
+const toQeran = (old: Rational, mode: RoundingMode) =>
+  roundRational(rational(old.num, old.den * OLD_PER_QERAN), mode) * OLD_PER_QERAN;
+
+const lineTotal = (line: InvoiceLine, mode: RoundingMode): InvoiceLineTotal => {
+  const qty = decimal(line.quantity);
+  if (!qty) return { ok: false, field: "quantity", fragment: line.quantity.trim() };
+  const price = parseAmountInUnit(line.unitPrice, line.priceUnit);
+  if (!price.ok) return { ok: false, field: "unitPrice", fragment: price.fragment };
+  const pct = decimal(line.discount, rational(0n));
+  if (!pct || pct.num > 100n * pct.den) {
+    return { ok: false, field: "discount", fragment: line.discount.trim() };
+  }
+  const exact = rational(price.value * qty.num, qty.den);
+  const gross = toQeran(exact, mode);
+  // discount on the exact amount, then one rounding for the line
+  const kept = rational(100n * pct.den - pct.num, 100n * pct.den);
+  const net = toQeran(rational(exact.num * kept.num, exact.den * kept.den), mode);
+  return { ok: true, gross, discount: gross - net, net };
+};
+
+/**
+ * Every line rounded to whole qerans, then subtotal, VAT on the subtotal (rounded
+ * to whole qerans the same way) and grand total, all in old rials.
+ */
+export const computeInvoice = (inv: Invoice): InvoiceTotals => {
+  const lines = inv.lines.map((l) => lineTotal(l, inv.rounding));
+  let gross = 0n;
+  let subtotal = 0n;
+  let discount = 0n;
+  let error: InvoiceTotals["error"] = null;
+  lines.forEach((l, i) => {
+    if (l.ok) {
+      gross += l.gross;
+      subtotal += l.net;
+      discount += l.discount;
+    } else error ??= { line: i + 1, field: l.field, fragment: l.fragment };
+  });
+  const rate = decimal(inv.vat, rational(0n));
+  if (!rate) error ??= { line: null, field: "vat", fragment: inv.vat.trim() };
+  const r = rate ?? rational(0n);
+  const vat = toQeran(rational(subtotal * r.num, r.den * 100n), inv.rounding);
+  return { lines, gross, discount, subtotal, vat, total: subtotal + vat, error };
+};
+
+/* ---------- export ---------- */
+
+// whole qerans → "55", "40"
+const newParts = (oldRial: bigint) => ({
+  newRial: oldRial / OLD_PER_NEW,
+  qeran: (oldRial % OLD_PER_NEW) / OLD_PER_QERAN,
+});
+
+/** CSV with one row per line item (after its discount) and the totals underneath, amounts ungrouped. */
+export const invoiceToCsv = (inv: Invoice, totals: InvoiceTotals, digits: DigitScript = "latin") => {
+  const row = (cells: (string | bigint)[]) =>
+    cells.map((c) => csvCell(mapDigits(String(c), digits))).join(",");
+  const amount = (old: bigint) => {
+    const n = newParts(old);
+    return [old, n.newRial, n.qeran];
+  };
+  const out = [
+    row([
+      "description",
+      "quantity",
+      "unit_price",
+      "price_unit",
+      "discount_percent",
+      "old_rial",
+      "new_rial",
+      "qeran",
+    ]),
+  ];
+  inv.lines.forEach((l, i) => {
+    const t = totals.lines[i];
+    const cells = [l.description, l.quantity, l.unitPrice, l.priceUnit, l.discount];
+    out.push(row(t.ok ? [...cells, ...amount(t.net)] : [...cells, "", "", ""]));
+  });
+  out.push(row(["subtotal", "", "", "", "", ...amount(totals.gross)]));
+  out.push(row(["discount", "", "", "", "", ...amount(totals.discount)]));
+  out.push(row(["after_discount", "", "", "", "", ...amount(totals.subtotal)]));
+  out.push(row([`vat ${inv.vat}%`, "", "", "", "", ...amount(totals.vat)]));
+  out.push(row(["total", "", "", "", "", ...amount(totals.total)]));
+  return out.join("\n");
+};
+
+/** A plain-text invoice for messaging apps worded by `t`, every amount in old rial and new rial + qeran. */
+export const invoiceToText = (
+  inv: Invoice,
+  totals: InvoiceTotals,
+  lang: Lang,
+  t: TextLabels,
+  format: NumberFormat = NUMBER_FORMATS[lang]
+) => {
+  const num = (n: bigint) => formatNumber(n, format);
+  const small = (s: string) => mapDigits(s, format.digits);
+  const amount = (old: bigint) => {
+    const n = newParts(old);
+    return `${num(old)} ${t("old_rial")} = ${num(n.newRial)} ${t("new_rial")} ${t("and")} ${small(String(n.qeran))} ${t("qeran")}`;
+  };
+  const lines = inv.lines.map((l, i) => {
+    const lineTotal = totals.lines[i];
+    const head = `${small(String(i + 1))}. ${l.description || "—"} × ${small(l.quantity.trim())}`;
+    const disc = l.discount.trim() ? ` (−${small(l.discount.trim())}%)` : "";
+    return `${head}${disc}: ${lineTotal.ok ? amount(lineTotal.net) : t("invoice_invalid")}`;
+  });
+  return [
+    ...(inv.title.trim() ? [inv.title.trim(), ""] : []),
+    ...lines,
+    "",
+    // the gross, the discounts taken off it, then what VAT is charged on
+    `${t("invoice_subtotal")}: ${amount(totals.gross)}`,
+    ...(totals.discount > 0n
+      ? [
+          `${t("invoice_discount_total")}: ${amount(totals.discount)}`,
+          `${t("invoice_net")}: ${amount(totals.subtotal)}`,
+        ]
+      : []),
+    `${t("invoice_vat_amount", { rate: small(inv.vat.trim() || "0") })}: ${amount(totals.vat)}`,
+    `${t("invoice_total")}: ${amount(totals.total)}`,
+  ].join("\n");
+};
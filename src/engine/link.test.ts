@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseConvertLink } from "./link";
+
+const langs = ["fa", "en", "ar", "az"];
+const parse = (query: string) => parseConvertLink(`rialconverter://convert?${query}`, langs);
+
+test("each amount parameter fills its own field, in old rials", () => {
+  assert.deepEqual(parse("old=550000"), { ok: true, kind: "amount", unit: "oldRial", oldRial: 550000n, lang: null });
+  assert.deepEqual(parse("toman=55000"), { ok: true, kind: "amount", unit: "oldToman", oldRial: 550000n, lang: null });
+  assert.deepEqual(parse("new=55&qeran=40&lang=en"), {
+    ok: true,
+    kind: "amount",
+    unit: "newRial",
+    oldRial: 554000n,
+    lang: "en",
+  });
+});
+
+test("amounts read like the input fields: Persian digits, separators and scale words", () => {
+  const amount = (query: string) => {
+    const r = parse(query);
+    return r.ok && r.kind === "amount" ? r.oldRial : r;
+  };
+  assert.equal(amount(`old=${encodeURIComponent("۵۵۰٬۰۰۰")}`), 550000n);
+  assert.equal(amount("old=5.5 million"), 5500000n);
+  assert.equal(amount("old=5.5+million"), 5500000n);
+  assert.equal(amount("old=5.5%20Million"), 5500000n);
+  assert.equal(amount("old=5.5M"), 5500000n);
+  assert.equal(amount(`toman=${encodeURIComponent("۵۰ هزار")}`), 500000n);
+});
+
+test("shared text is passed on as is", () => {
+  assert.deepEqual(parse("text=pay+550%2C000+rials&lang=fa"), {
+    ok: true,
+    kind: "text",
+    text: "pay 550,000 rials",
+    lang: "fa",
+  });
+});
+
+test("malformed links report what is wrong", () => {
+  assert.equal(parseConvertLink("https://example.com/convert?old=1", langs).ok, false);
+  assert.deepEqual(parse(""), { ok: false, code: "no_amount", fragment: "" });
+  assert.deepEqual(parse("old=1&new=2"), { ok: false, code: "many_amounts", fragment: "old, new" });
+  const bad = parse("old=abc");
+  assert.equal(!bad.ok && bad.code, "bad_amount");
+  assert.deepEqual(parse("old=1000&qeran=40"), { ok: false, code: "bad_qeran", fragment: "40" });
+  assert.deepEqual(parse("new=1&qeran=400"), { ok: false, code: "bad_qeran", fragment: "400" });
+  assert.deepEqual(parse("old=1&lang=xx"), { ok: false, code: "bad_lang", fragment: "xx" });
+});
@@ -0,0 +1,81 @@
+/* ======================= Deep links: rialconverter://convert?old=550000 ======================= */
+import { normalizeDigitsToAscii } from "./digits";
+import { OLD_PER_QERAN, parseAmountInUnit, type Unit } from "./convert";
+
+export const LINK_SCHEME = "rialconverter";
+
+// query parameter → the field it fills; qeran only goes with `new`
+const AMOUNT_PARAMS: Record<string, Unit> = {
+  old: "oldRial",
+  toman: "oldToman",
+  new: "newRial",
+};
+
+export type LinkErrorCode =
+  | "unknown" // not a rialconverter://convert link
+  | "no_amount"
+  | "many_amounts"
+  | "bad_amount"
+  | "bad_qeran"
+  | "bad_lang";
+
+export type ConvertLink =
+  | { ok: true; kind: "amount"; unit: Unit; oldRial: bigint; lang: string | null }
+  // text shared from another app (Android share sheet), amounts still to be found in it
+  | { ok: true; kind: "text"; text: string; lang: string | null }
+  | { ok: false; code: LinkErrorCode; fragment: string };
+
+// "a=1&b=x+y" → { a: "1", b: "x y" }; null when the escaping is broken
+const parseQuery = (query: string): Record<string, string> | null => {
+  const out: Record<string, string> = {};
+  for (const pair of query.split("&")) {
+    if (!pair) continue;
+    const eq = pair.indexOf("=");
+    const [key, value] = eq < 0 ? [pair, ""] : [pair.slice(0, eq), pair.slice(eq + 1)];
+    try {
+      out[decodeURIComponent(key.replace(/\+/g, " "))] = decodeURIComponent(value.replace(/\+/g, " "));
+    } catch {
+      return null;
+    }
+  }
+  return out;
+};
+
+/**
+ * Read a conversion link: `?old=550000`, `?toman=55000`, `?new=55&qeran=40`, or `?text=…`
+ * for shared text, each with an optional `lang` from `langs`. Amounts go through the
+ * same parsing as the input fields, so "۵۵۰٬۰۰۰" or "5.5 million" work here too.
+ */
+export const parseConvertLink = (url: string, langs: readonly string[]): ConvertLink => {
+  const m = url.trim().match(/^([a-z][a-z0-9+.-]*):\/*([^?#]*)(?:\?([^#]*))?/i);
+  if (!m || m[1].toLowerCase() !== LINK_SCHEME || m[2].replace(/\/+$/, "") !== "convert") {
+    return { ok: false, code: "unknown", fragment: url };
+  }
+  const q = parseQuery(m[3] ?? "");
+  if (!q) return { ok: false, code: "unknown", fragment: url };
+
+  const lang = q.lang?.trim() || null;
+  if (lang !== null && !langs.includes(lang)) return { ok: false, code: "bad_lang", fragment: lang };
+
+  const given = Object.keys(AMOUNT_PARAMS).filter((k) => q[k]?.trim());
+  if (given.length > 1) return { ok: false, code: "many_amounts", fragment: given.join(", ") };
+  if (!given.length) {
+    if (q.text?.trim()) return { ok: true, kind: "text", text: q.text.trim(), lang };
+    return { ok: false, code: "no_amount", fragment: "" };
+  }
+
+  const unit = AMOUNT_PARAMS[given[0]];
+  const parsed = parseAmountInUnit(q[given[0]], unit);
+  if (!parsed.ok) return { ok: false, code: "bad_amount", fragment: parsed.fragment };
+
+  let qeran = 0n;
+  const qeranText = q.qeran?.trim();
+  if (qeranText) {
+    const digits = normalizeDigitsToAscii(qeranText);
+    if (unit !== "newRial" || !/^\d{1,2}$/.test(digits)) {
+      return { ok: false, code: "bad_qeran", fragment: qeranText };
+    }
+    qeran = BigInt(digits);
+  }
+  return { ok: true, kind: "amount", unit, oldRial: parsed.value + qeran * OLD_PER_QERAN, lang };
+};
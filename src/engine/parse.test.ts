@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseAmountText } from "./parse";
+
+test("a unit hint rescales the amount against the field's unit", () => {
+  assert.deepEqual(parseAmountText("5 تومان"), { ok: true, value: 50n });
+  assert.deepEqual(parseAmountText("50 ریال", { unit: "toman" }), { ok: true, value: 5n });
+  assert.deepEqual(parseAmountText("55 rials", { unit: "toman" }), {
+    ok: false,
+    code: "fraction",
+    fragment: "55 rials",
+  });
+});
+
+test("one unit hint in an expression applies to the whole result", () => {
+  assert.deepEqual(parseAmountText("(5 + 5) تومان"), { ok: true, value: 100n, inexact: false });
+  assert.deepEqual(parseAmountText("2 × 50 ریال", { unit: "toman" }), { ok: true, value: 10n, inexact: false });
+});
+
+test("an expression naming both units is refused instead of guessed", () => {
+  assert.deepEqual(parseAmountText("5 تومان + 5 ریال"), {
+    ok: false,
+    code: "mixed_units",
+    fragment: "5 تومان + 5 ریال",
+  });
+  assert.equal(parseAmountText("5 toman - 5 rial", { unit: "toman" }).ok, false);
+});
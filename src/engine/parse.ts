@@ -0,0 +1,153 @@
+/* ======================= Amount field parsing ======================= */
+import { normalizeDigitsToAscii, onlyDigits } from "./digits";
+import { evaluateExpression, isExpression, rational, type ExprErrorCode, type Rational } from "./expr";
+import {
+  hasPersianLetters,
+  normalizePersianText,
+  parsePersianWords,
+  type WordsErrorCode,
+} from "./parseWords";
+
+export type AmountErrorCode = WordsErrorCode | ExprErrorCode | "negative" | "fraction" | "mixed_units";
+
+export type AmountParseResult =
+  | { ok: true; value: bigint; inexact?: boolean }
+  | { ok: false; code: AmountErrorCode; fragment: string };
+
+export type AmountParseOptions = {
+  /** What the field counts; a "تومان"/"ریال" hint in the text rescales by 10 against it. */
+  unit?: "rial" | "toman";
+  /** Fractional digits the field can hold; the result is scaled by 10^decimals. */
+  decimals?: number;
+};
+
+// exact decimal: digits × 10^exp
+type Dec = { digits: bigint; exp: number };
+
+const suffixWords: Record<string, string> = {
+  k: "هزار",
+  m: "میلیون",
+  b: "میلیارد",
+};
+// English scale words, read like their Persian counterparts
+const englishScales: Record<string, string> = {
+  thousand: "هزار",
+  million: "میلیون",
+  billion: "میلیارد",
+};
+const englishScaleRe = /\b(thousand|million|billion)s?\b/gi;
+const scaleExp: Record<string, number> = {
+  هزار: 3,
+  میلیون: 6,
+  ملیون: 6,
+  میلیارد: 9,
+  ملیارد: 9,
+  بیلیون: 9,
+};
+
+const tomanRe = /(تومان|تومن|\btomans?\b)/i;
+const rialRe = /(ریال|\brials?\b)/i;
+// "old"/"new" are implied by the field itself
+const eraRe = /(جدید|قدیم|\bnew\b|\bold\b)/i;
+const all = (re: RegExp) => new RegExp(re, "gi");
+
+/** True if the text is nothing but digits (any script), separators and spaces. */
+export const isPlainDigits = (s: string) => /^[0-9۰-۹٠-٩,٬'’\s]*$/.test(s);
+
+const parseDecimal = (s: string): Dec | null => {
+  const m = s.trim().match(/^([0-9][0-9,٬'’\s]*)?[.٫]([0-9]+)(?:\s*(\S+))?$/);
+  if (!m) return null;
+  const [, intPart = "", frac, scale] = m;
+  let exp = -frac.length;
+  if (scale !== undefined) {
+    if (!(scale in scaleExp)) return null;
+    exp += scaleExp[scale];
+  }
+  return { digits: BigInt(intPart.replace(/[,٬'’\s]/g, "") + frac), exp };
+};
+
+type QuantityResult =
+  | { ok: true; dec: Dec }
+  | { ok: false; code: AmountErrorCode; fragment: string };
+
+// one number: decimal (+ scale word), Persian words (with digit groups) or plain digits
+const parseQuantity = (text: string): QuantityResult => {
+  const fragment = text.trim();
+  if (/[0-9]?[.٫][0-9]/.test(text)) {
+    const dec = parseDecimal(text);
+    return dec ? { ok: true, dec } : { ok: false, code: "bad_order", fragment };
+  }
+  if (hasPersianLetters(text) || /[a-zA-Z]/.test(text)) {
+    const r = parsePersianWords(text);
+    if (!r.ok) return r;
+    if (r.value < 0n) return { ok: false, code: "negative", fragment };
+    return { ok: true, dec: { digits: r.value, exp: 0 } };
+  }
+  const raw = onlyDigits(text);
+  return { ok: true, dec: { digits: raw ? BigInt(raw) : 0n, exp: 0 } };
+};
+
+const decToRational = ({ digits, exp }: Dec): Rational =>
+  exp >= 0 ? rational(digits * 10n ** BigInt(exp)) : rational(digits, 10n ** BigInt(-exp));
+
+/**
+ * Parse what the user typed or pasted into an amount field: plain digits
+ * (any script, any separators), Persian number words, decimals ("5.5", "۵٫۵"),
+ * scale words or k/M/B suffixes ("5.5 میلیون", "5.5 million", "2M"), a unit hint ("تومان", "ریال")
+ * and arithmetic ("1,200,000 + 9%", "(50k - 2k) × 3").
+ * Empty input is 0n. A literal amount must be whole at the field's precision, else
+ * "fraction"; an expression result is truncated toward zero and flagged `inexact`.
+ * The unit hint applies to the whole text, so an expression naming both units is "mixed_units".
+ */
+export const parseAmountText = (val: string, opts: AmountParseOptions = {}): AmountParseResult => {
+  const { unit = "rial", decimals = 0 } = opts;
+  const fragment = val.trim();
+  if (isPlainDigits(val)) {
+    const raw = onlyDigits(val);
+    return { ok: true, value: (raw ? BigInt(raw) : 0n) * 10n ** BigInt(decimals) };
+  }
+
+  let text = normalizeDigitsToAscii(normalizePersianText(val));
+  if (isExpression(text) && tomanRe.test(text) && rialRe.test(text)) {
+    return { ok: false, code: "mixed_units", fragment };
+  }
+  let hintExp = 0;
+  if (tomanRe.test(text)) {
+    if (unit === "rial") hintExp = 1;
+  } else if (rialRe.test(text) && unit === "toman") {
+    hintExp = -1;
+  }
+  text = text
+    .replace(all(tomanRe), " ")
+    .replace(all(rialRe), " ")
+    .replace(all(eraRe), " ")
+    .replace(/([0-9])\s*([kKmMbB])(?![a-zA-Z])/g, (_, d: string, sfx: string) => `${d} ${suffixWords[sfx.toLowerCase()]}`)
+    .replace(englishScaleRe, (_, w: string) => englishScales[w.toLowerCase()])
+    .trim();
+  const exp = hintExp + decimals;
+
+  if (isExpression(text)) {
+    let operandError: QuantityResult | null = null;
+    const r = evaluateExpression(text, (s) => {
+      const q = parseQuantity(s);
+      if (!q.ok) {
+        operandError ??= q;
+        return null;
+      }
+      return decToRational(q.dec);
+    });
+    if (!r.ok) return operandError ?? r;
+    const scaled = exp >= 0 ? r.value.num * 10n ** BigInt(exp) : r.value.num;
+    const den = exp >= 0 ? r.value.den : r.value.den * 10n ** BigInt(-exp);
+    if (scaled < 0n) return { ok: false, code: "negative", fragment };
+    return { ok: true, value: scaled / den, inexact: scaled % den !== 0n };
+  }
+
+  const q = parseQuantity(text);
+  if (!q.ok) return q;
+  const total = q.dec.exp + exp;
+  if (total >= 0) return { ok: true, value: q.dec.digits * 10n ** BigInt(total) };
+  const div = 10n ** BigInt(-total);
+  if (q.dec.digits % div !== 0n) return { ok: false, code: "fraction", fragment };
+  return { ok: true, value: q.dec.digits / div };
+};
@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parsePersianWords } from "./parseWords";
+
+test("digit groups mixed with scale words, whatever the group separator", () => {
+  for (const text of ["1200 هزار", "1,200 هزار", "۱٬۲۰۰ هزار", "1'200 هزار", "1’200 هزار"]) {
+    assert.deepEqual(parsePersianWords(text), { ok: true, value: 1200000n }, text);
+  }
+});
+
+test("quotes around words still separate tokens", () => {
+  assert.deepEqual(parsePersianWords("'دو' هزار"), { ok: true, value: 2000n });
+});
+
+test("words out of order are reported", () => {
+  assert.deepEqual(parsePersianWords("5 7 هزار"), { ok: false, code: "bad_order", fragment: "7" });
+});
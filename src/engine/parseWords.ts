@@ -0,0 +1,123 @@
+/* ======================= Persian words to number (BigInt) ======================= */
+import { normalizeDigitsToAscii } from "./digits";
+import { ones, tens, hundreds, teens, scales } from "./words";
+
+export type WordsErrorCode = "empty" | "unknown_word" | "bad_order";
+
+export type WordsParseResult =
+  | { ok: true; value: bigint }
+  | { ok: false; code: WordsErrorCode; fragment: string };
+
+// common spoken / alternative spellings not produced by bigIntToPersianWords
+const variants: Record<string, bigint> = {
+  صفر: 0n,
+  یه: 1n,
+  شیش: 6n,
+  هیجده: 18n,
+  هیژده: 18n,
+  شونزده: 16n,
+  چل: 40n,
+  یکصد: 100n,
+  چارصد: 400n,
+  پونصد: 500n,
+  ملیون: 1_000_000n,
+  ملیارد: 1_000_000_000n,
+  بیلیون: 1_000_000_000n,
+};
+
+// words that may surround an amount on a cheque and carry no value
+const fillers = new Set(["و", "ریال", "فقط", "تمام"]);
+
+const buildLexicon = () => {
+  const lex = new Map<string, bigint>();
+  ones.forEach((w, i) => w && lex.set(w, BigInt(i)));
+  tens.forEach((w, i) => w && lex.set(w, BigInt(i * 10)));
+  hundreds.forEach((w, i) => w && lex.set(w, BigInt(i * 100)));
+  Object.entries(teens).forEach(([n, w]) => lex.set(w, BigInt(n)));
+  scales.forEach((w, i) => w && lex.set(w, 1000n ** BigInt(i)));
+  Object.entries(variants).forEach(([w, n]) => lex.set(w, n));
+  return lex;
+};
+const lexicon = buildLexicon();
+
+/** Unify Arabic/Persian letter forms, drop diacritics and split ZWNJ-joined words. */
+export const normalizePersianText = (s: string) =>
+  s
+    .replace(/[\u064A\u0649]/g, "\u06CC")
+    .replace(/\u0643/g, "\u06A9")
+    .replace(/[\u064B-\u065F\u0670]/g, "")
+    .replace(/[\u200C\u200E\u200F]/g, " ");
+
+/** True if the text contains Persian/Arabic letters (digits and separators don't count). */
+export const hasPersianLetters = (s: string) =>
+  /[\u0621-\u064A\u067E\u0686\u0698\u06A9\u06AF\u06CC]/.test(s);
+
+/**
+ * Parse an amount written in Persian words (the inverse of bigIntToPersianWords),
+ * e.g. "دو میلیارد و سیصد میلیون ریال" → 2300000000n.
+ * "و" is optional, digit groups may be mixed in ("۲ میلیون"), and a leading "منفی" negates.
+ */
+export const parsePersianWords = (text: string): WordsParseResult => {
+  const tokens = normalizeDigitsToAscii(normalizePersianText(text))
+    .replace(/([0-9])['’](?=[0-9])/g, "$1") // a Swiss-style group separator, not a quote
+    .split(/[\s،؛;:!?()«»"'\-]+/)
+    .filter(Boolean);
+
+  let neg = false;
+  let total = 0n;
+  let group = 0n; // value below the next scale word (0..999 in well-formed input)
+  let lastScale = 0n; // smallest scale applied so far (0 = none yet)
+  let seen = false;
+  let zero = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const tok = tokens[i];
+    if (fillers.has(tok)) continue;
+    if (tok === "منفی" && !seen) {
+      neg = true;
+      continue;
+    }
+
+    let v: bigint | undefined;
+    if (/^[0-9][0-9,٬'’]*$/.test(tok)) v = BigInt(tok.replace(/[,٬'’]/g, ""));
+    else v = lexicon.get(tok);
+    if (v === undefined) return { ok: false, code: "unknown_word", fragment: tok };
+    if (zero || (v === 0n && seen)) return { ok: false, code: "bad_order", fragment: tok };
+    seen = true;
+
+    if (v === 0n) {
+      zero = true;
+    } else if (/^[0-9]/.test(tok)) {
+      // a digit group, however large, is a count and never a scale
+      if (group !== 0n) return { ok: false, code: "bad_order", fragment: tok };
+      group = v;
+    } else if (v >= 1000n) {
+      // scale word: "هزار" alone means one thousand
+      if (lastScale === 0n || v < lastScale) {
+        total += (group === 0n ? 1n : group) * v;
+      } else {
+        // colloquial stacking, e.g. "هزار میلیارد" = 10^12
+        total = (total + group) * v;
+      }
+      lastScale = v;
+      group = 0n;
+    } else if (v === 100n && group > 0n && group < 10n) {
+      group *= 100n; // "سه صد"
+    } else if (v >= 100n) {
+      if (group !== 0n) return { ok: false, code: "bad_order", fragment: tok };
+      group = v;
+    } else if (v >= 10n) {
+      if (group % 100n !== 0n) return { ok: false, code: "bad_order", fragment: tok };
+      group += v;
+    } else {
+      const low = group % 100n;
+      if (low !== 0n && (low < 20n || low % 10n !== 0n))
+        return { ok: false, code: "bad_order", fragment: tok };
+      group += v;
+    }
+  }
+
+  if (!seen) return { ok: false, code: "empty", fragment: text.trim() };
+  const value = total + group;
+  return { ok: true, value: neg ? -value : value };
+};
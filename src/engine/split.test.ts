@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PERCENT_TOTAL, equalWeights, parseWeights, splitOld } from "./split";
+
+const sum = (xs: bigint[]) => xs.reduce((a, b) => a + b, 0n);
+
+test("shares always add up to the amount", () => {
+  const cases: [bigint, bigint[]][] = [
+    [1000000n, equalWeights(3)],
+    [1000099n, equalWeights(7)],
+    [554037n, [1n, 2n, 3n]],
+    [10n ** 30n + 1n, [3333n, 3333n, 3334n]],
+    [99n, equalWeights(4)],
+    [0n, equalWeights(2)],
+  ];
+  for (const [old, weights] of cases) {
+    const shares = splitOld(old, weights);
+    assert.equal(shares.length, weights.length);
+    assert.equal(sum(shares), old, `${old} / ${weights.join(":")}`);
+  }
+});
+
+test("leftover qerans go to the largest remainders, earlier shares first on a tie", () => {
+  // 100 qerans in three: 33 each, the one left over goes to the first share
+  assert.deepEqual(splitOld(10000n, equalWeights(3)), [3400n, 3300n, 3300n]);
+  // 101 qerans in three: two left over, the first two shares
+  assert.deepEqual(splitOld(10100n, equalWeights(3)), [3400n, 3400n, 3300n]);
+  // 10 qerans as 1:2:2 → 2, 4, 4 exactly; as 1:1:2 with 11 → 2.75, 2.75, 5.5
+  assert.deepEqual(splitOld(1000n, [1n, 2n, 2n]), [200n, 400n, 400n]);
+  assert.deepEqual(splitOld(1100n, [1n, 1n, 2n]), [300n, 300n, 500n]);
+});
+
+test("the part below one qeran goes to the first share with a weight", () => {
+  assert.deepEqual(splitOld(10099n, equalWeights(2)), [5099n, 5000n]);
+  assert.deepEqual(splitOld(10099n, [0n, 1n, 1n]), [0n, 5099n, 5000n]);
+});
+
+test("zero weights get nothing; no positive weight means no split", () => {
+  assert.deepEqual(splitOld(30000n, [0n, 1n, 0n, 2n]), [0n, 10000n, 0n, 20000n]);
+  assert.deepEqual(splitOld(30000n, [0n, 0n]), []);
+  assert.deepEqual(splitOld(30000n, [1n, -1n, 2n]), []);
+});
+
+test("percentages split like weights", () => {
+  const p = parseWeights("50، 30٫5, 19.5");
+  assert.ok(p.ok);
+  assert.equal(sum(p.weights), PERCENT_TOTAL);
+  assert.deepEqual(splitOld(1000000n, p.weights), [500000n, 305000n, 195000n]);
+});
+
+test("parseWeights rejects bad numbers and all-zero weights", () => {
+  assert.deepEqual(parseWeights("۲ ۱ ۱"), { ok: true, weights: [200n, 100n, 100n] });
+  assert.deepEqual(parseWeights("1, 2.555"), { ok: false, fragment: "2.555" });
+  assert.deepEqual(parseWeights("1, x"), { ok: false, fragment: "x" });
+  assert.deepEqual(parseWeights("0 0"), { ok: false, fragment: "0 0" });
+});
@@ -0,0 +1,59 @@
+/* ======================= Splitting an amount into shares ======================= */
+import { normalizeDigitsToAscii } from "./digits";
+import { OLD_PER_QERAN } from "./convert";
+
+export type SplitMode = "equal" | "weights" | "percent";
+export const SPLIT_MODES: SplitMode[] = ["equal", "weights", "percent"];
+
+/** Weights and percentages are kept as integers with this many decimals ("33.5" → 3350n). */
+export const WEIGHT_DECIMALS = 2;
+const WEIGHT_SCALE = 10n ** BigInt(WEIGHT_DECIMALS);
+/** 100% in weight units. */
+export const PERCENT_TOTAL = 100n * WEIGHT_SCALE;
+
+export type WeightsParseResult =
+  | { ok: true; weights: bigint[] }
+  | { ok: false; fragment: string };
+
+/** "50, 30, 20" / "۲ ۱ ۱" / "33.5؛ 66.5" → scaled weights; at least one must be above zero. */
+export const parseWeights = (text: string): WeightsParseResult => {
+  const parts = normalizeDigitsToAscii(text)
+    .replace(/٫/g, ".")
+    .split(/[\s,،;؛+]+/)
+    .filter(Boolean);
+  const weights: bigint[] = [];
+  for (const p of parts) {
+    const m = p.match(/^(\d+)(?:\.(\d+))?$/);
+    if (!m || (m[2] ?? "").length > WEIGHT_DECIMALS) return { ok: false, fragment: p };
+    weights.push(BigInt(m[1] + (m[2] ?? "").padEnd(WEIGHT_DECIMALS, "0")));
+  }
+  if (!weights.some((w) => w > 0n)) return { ok: false, fragment: text.trim() };
+  return { ok: true, weights };
+};
+
+/** n equal weights. */
+export const equalWeights = (n: number): bigint[] => Array.from({ length: n }, () => 1n);
+
+/**
+ * Split an amount in proportion to `weights`, in whole qerans, so the shares add up
+ * to `oldRial` exactly. Qerans left over after rounding down go one each to the shares
+ * with the largest remainders, earlier shares first on a tie; the part below one qeran
+ * goes to the first share with a non-zero weight.
+ */
+export const splitOld = (oldRial: bigint, weights: bigint[]): bigint[] => {
+  const total = weights.reduce((sum, w) => sum + w, 0n);
+  if (total <= 0n || weights.some((w) => w < 0n)) return [];
+
+  const qerans = oldRial / OLD_PER_QERAN;
+  const shares = weights.map((w) => (qerans * w) / total);
+  let left = qerans - shares.reduce((sum, s) => sum + s, 0n);
+  // fewer leftovers than shares with a remainder, so this never runs off the end
+  const order = weights
+    .map((w, i) => ({ i, rem: (qerans * w) % total }))
+    .sort((a, b) => (a.rem > b.rem ? -1 : a.rem < b.rem ? 1 : a.i - b.i));
+  for (let k = 0; left > 0n; k++, left--) shares[order[k].i]++;
+
+  const out = shares.map((s) => s * OLD_PER_QERAN);
+  out[weights.findIndex((w) => w > 0n)] += oldRial % OLD_PER_QERAN;
+  return out;
+};
@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { breakdownOld } from "./convert";
+import { formatSummary } from "./summary";
+import { makeI18n, translate, type Locale } from "../i18n";
+
+// the summary as the app copies it: UI wording and number format, number words in i18n.words
+const summaryIn = (locale: Locale, template: "amount" | "words" | "bilingual" = "words") => {
+  const i18n = makeI18n(locale);
+  return formatSummary(
+    breakdownOld(554000n),
+    "oldToNew",
+    i18n.words,
+    i18n.t,
+    template,
+    { number: i18n.number, qeranDecimal: i18n.qeranDecimal },
+    (lang) => (key, params) => translate(lang, key, params)
+  );
+};
+
+test("Arabic UI: Arabic wording and Arabic-Indic digits, English number words", () => {
+  assert.equal(
+    summaryIn("ar"),
+    [
+      "٥٥٤٬٠٠٠ ريال قديم = ٥٥ ريال جديد و ٤٠ قِران",
+      "ما يعادل ٥٥٬٤٠٠ تومان قديم",
+      "كتابةً: fifty-five rial(s) and forty qeran",
+    ].join("\n")
+  );
+});
+
+test("Azerbaijani UI groups with a no-break space as on screen", () => {
+  assert.equal(summaryIn("az", "amount"), "554\u00a0000 Köhnə rial = 55 Yeni rial və 40 Qəran");
+});
+
+test("the user's number format overrides the language's", () => {
+  const i18n = makeI18n("fa", { number: { digits: "latin", separator: "'" }, qeranDecimal: true });
+  const text = formatSummary(breakdownOld(554000n), "oldToNew", i18n.words, i18n.t, "amount", {
+    number: i18n.number,
+    qeranDecimal: i18n.qeranDecimal,
+  });
+  assert.equal(text, "554'000 ریال قدیم = 55.40 ریال جدید");
+});
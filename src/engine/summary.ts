@@ -0,0 +1,66 @@
+/* ======================= Shareable text summary ======================= */
+import {
+  formatDecimal,
+  formatNumber,
+  mapDigits,
+  type Lang,
+  type NumberFormat,
+  type TextLabels,
+} from "./digits";
+import type { UnitBreakdown } from "./convert";
+import { resultInWords } from "./cheque";
+
+/** amount: one line · words: amounts, toman and words · bilingual: the words block in FA and EN */
+export type SummaryTemplate = "amount" | "words" | "bilingual";
+export const SUMMARY_TEMPLATES: SummaryTemplate[] = ["amount", "words", "bilingual"];
+
+/** How amounts are displayed: the app's number format with the user's choices merged in. */
+export type SummaryFormat = {
+  number: NumberFormat;
+  qeranDecimal?: boolean; // "55.40 new rial(s)"
+};
+
+const block = (
+  b: UnitBreakdown,
+  mode: "oldToNew" | "newToOld",
+  lang: Lang,
+  withWords: boolean,
+  format: SummaryFormat,
+  t: TextLabels
+) => {
+  const nf = format.number;
+  const num = (n: bigint) => formatNumber(n, nf);
+  const oldPart = `${num(b.oldRial)} ${t("old_rial")}`;
+  const newPart = format.qeranDecimal
+    ? `${formatDecimal(b.newRial, String(b.qeran).padStart(2, "0"), nf)} ${t("new_rial")}`
+    : `${num(b.newRial)} ${t("new_rial")} ${t("and")} ${mapDigits(String(b.qeran), nf.digits)} ${t("qeran")}`;
+  const lines = [mode === "oldToNew" ? `${oldPart} = ${newPart}` : `${newPart} = ${oldPart}`];
+  if (withWords) {
+    lines.push(t("summary_toman", { amount: num(b.oldToman) }));
+    lines.push(t("summary_words", { text: resultInWords(b, mode, lang) }));
+  }
+  return lines.join("\n");
+};
+
+/**
+ * Plain-text summary of a conversion for copy / share, worded by `t` with number words in `lang`,
+ * digits as on screen. The bilingual blocks are worded by `labelsIn` their own language.
+ */
+export const formatSummary = (
+  b: UnitBreakdown,
+  mode: "oldToNew" | "newToOld",
+  lang: Lang,
+  t: TextLabels,
+  template: SummaryTemplate,
+  format: SummaryFormat,
+  labelsIn: (lang: Lang) => TextLabels = () => t
+): string => {
+  switch (template) {
+    case "amount":
+      return block(b, mode, lang, false, format, t);
+    case "words":
+      return block(b, mode, lang, true, format, t);
+    case "bilingual":
+      return `${block(b, mode, "fa", true, format, labelsIn("fa"))}\n\n${block(b, mode, "en", true, format, labelsIn("en"))}`;
+  }
+};
@@ -0,0 +1,132 @@
+/* ======================= Printable reference table (self-contained HTML) ======================= */
+import { formatDecimal, formatNumber, mapDigits, type Lang, type NumberFormat } from "./digits";
+import { breakdownOld, oldToUnitDecimal, parseAmountInUnit, type RoundingMode } from "./convert";
+import { resultInWords } from "./cheque";
+
+/** More rows than anyone prints; keeps a typo in the step from building a huge document. */
+export const MAX_TABLE_ROWS = 2000;
+
+export type TableAmounts =
+  | { ok: true; amounts: bigint[] }
+  | { ok: false; code: "bad_range" | "bad_step" | "bad_amount" | "too_many"; fragment: string };
+
+/** `from`, `from + step`, … up to and including `to`, all in old rials. */
+export const tableRange = (from: bigint, to: bigint, step: bigint): TableAmounts => {
+  if (step <= 0n) return { ok: false, code: "bad_step", fragment: String(step) };
+  if (from < 0n || to < from) return { ok: false, code: "bad_range", fragment: "" };
+  const count = (to - from) / step + 1n;
+  if (count > BigInt(MAX_TABLE_ROWS)) return { ok: false, code: "too_many", fragment: String(count) };
+  const amounts: bigint[] = [];
+  for (let a = from; a <= to; a += step) amounts.push(a);
+  return { ok: true, amounts };
+};
+
+/**
+ * Old-rial amounts one per line (or separated by ";" / "،"), read like the old-rial field,
+ * so "۵۰ هزار" and "1.5m" work. Duplicates are kept, order is as typed.
+ */
+export const parseAmountList = (text: string): TableAmounts => {
+  const amounts: bigint[] = [];
+  for (const part of text.split(/[\n;؛،]/)) {
+    if (!part.trim()) continue;
+    const p = parseAmountInUnit(part, "oldRial");
+    if (!p.ok || p.value < 0n) return { ok: false, code: "bad_amount", fragment: part.trim() };
+    amounts.push(p.value);
+  }
+  if (amounts.length > MAX_TABLE_ROWS) {
+    return { ok: false, code: "too_many", fragment: String(amounts.length) };
+  }
+  return { ok: true, amounts };
+};
+
+/** The colours the document is drawn in; a theme palette fits as is. */
+export type TableColors = {
+  bg: string;
+  card: string;
+  text: string;
+  sub: string;
+  border: string;
+  old: string;
+  ok: string;
+  primary: string;
+  onPrimary: string;
+};
+
+export type TableHtmlOptions = {
+  title: string;
+  lang: string; // the page's lang attribute, e.g. "fa"
+  dir: "rtl" | "ltr";
+  // column headings and the qeran wording, in the UI language
+  labels: { oldRial: string; oldToman: string; newRial: string; words: string; and: string; qeran: string };
+  format: NumberFormat;
+  qeranDecimal: boolean; // "55.40" instead of "55 and 40 qeran"
+  words: Lang | null; // words column for the new-rial side, or none
+  rounding: RoundingMode; // for amounts below one qeran
+  colors: TableColors;
+};
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** A complete HTML page with one row per amount, ready to print or share; no external resources. */
+export const referenceTableHtml = (amounts: bigint[], o: TableHtmlOptions) => {
+  const { labels: L, format, colors: c } = o;
+  const num = (n: bigint) => formatNumber(n, format);
+  const cell = (s: string, cls = "") => `<td${cls ? ` class="${cls}"` : ""}>${escapeHtml(s)}</td>`;
+
+  const rows = amounts.map((old) => {
+    const b = breakdownOld(old, o.rounding);
+    const approx = b.exact ? "" : "≈ ";
+    const toman = oldToUnitDecimal(old, "oldToman");
+    const newText = o.qeranDecimal
+      ? formatDecimal(b.newRial, String(b.qeran).padStart(2, "0"), format)
+      : `${num(b.newRial)} ${L.and} ${mapDigits(String(b.qeran), format.digits)} ${L.qeran}`;
+    return [
+      "<tr>",
+      cell(num(old), "old"),
+      cell(formatDecimal(toman.int, toman.frac, format)),
+      cell(approx + newText, "new"),
+      o.words ? cell(resultInWords(b, "oldToNew", o.words), "words") : "",
+      "</tr>",
+    ].join("");
+  });
+
+  const head = [L.oldRial, L.oldToman, L.newRial, ...(o.words ? [L.words] : [])]
+    .map((h) => `<th>${escapeHtml(h)}</th>`)
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(o.lang)}" dir="${o.dir}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(o.title)}</title>
+<style>
+  @page { margin: 12mm; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  body { margin: 0; padding: 16px; background: ${c.bg}; color: ${c.text};
+    font-family: Vazirmatn, Tahoma, "Segoe UI", Roboto, sans-serif; }
+  h1 { font-size: 20px; text-align: center; margin: 0 0 12px; }
+  table { width: 100%; border-collapse: collapse; background: ${c.card}; font-variant-numeric: tabular-nums; }
+  thead { display: table-header-group; }
+  th { background: ${c.primary}; color: ${c.onPrimary}; padding: 8px; text-align: start; }
+  td { padding: 6px 8px; border-bottom: 1px solid ${c.border}; text-align: start; }
+  tr { break-inside: avoid; }
+  tbody tr:nth-child(even) td { background: ${c.bg}; }
+  td.old { color: ${c.old}; font-weight: 700; }
+  td.new { color: ${c.ok}; font-weight: 700; }
+  td.words { color: ${c.sub}; font-size: 0.9em; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(o.title)}</h1>
+<table>
+<thead><tr>${head}</tr></thead>
+<tbody>
+${rows.join("\n")}
+</tbody>
+</table>
+</body>
+</html>
+`;
+};
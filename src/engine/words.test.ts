@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { bigIntToPersianWords, tripletToFaWords } from "./words";
+
+test("tripletToFaWords: zero and single digits", () => {
+  assert.equal(tripletToFaWords(0), "");
+  assert.equal(tripletToFaWords(1), "یک");
+  assert.equal(tripletToFaWords(9), "نه");
+});
+
+test("tripletToFaWords: ten and the teens", () => {
+  assert.equal(tripletToFaWords(10), "ده");
+  assert.equal(tripletToFaWords(11), "یازده");
+  assert.equal(tripletToFaWords(15), "پانزده");
+  assert.equal(tripletToFaWords(19), "نوزده");
+  assert.equal(tripletToFaWords(20), "بیست");
+  assert.equal(tripletToFaWords(21), "بیست و یک");
+});
+
+test("tripletToFaWords: hundreds, alone and with teens or tens", () => {
+  assert.equal(tripletToFaWords(100), "صد");
+  assert.equal(tripletToFaWords(200), "دویست");
+  assert.equal(tripletToFaWords(500), "پانصد");
+  assert.equal(tripletToFaWords(105), "صد و پنج");
+  assert.equal(tripletToFaWords(110), "صد و ده");
+  assert.equal(tripletToFaWords(113), "صد و سیزده");
+  assert.equal(tripletToFaWords(999), "نهصد و نود و نه");
+});
+
+test("bigIntToPersianWords: zero and negatives", () => {
+  assert.equal(bigIntToPersianWords(0n), "صفر");
+  assert.equal(bigIntToPersianWords(-12n), "منفی دوازده");
+});
+
+test("bigIntToPersianWords: scales skip empty triplets", () => {
+  assert.equal(bigIntToPersianWords(1000n), "یک هزار");
+  assert.equal(bigIntToPersianWords(1_000_001n), "یک میلیون و یک");
+  assert.equal(bigIntToPersianWords(2_500_000n), "دو میلیون و پانصد هزار");
+});
+
+test("bigIntToPersianWords: huge amounts past the scale table", () => {
+  // 10^18 is the last named scale; 10^21 stacks it
+  assert.equal(bigIntToPersianWords(10n ** 18n), "یک کوینتیلیون");
+  assert.equal(bigIntToPersianWords(10n ** 21n), "یک هزار کوینتیلیون");
+  assert.equal(bigIntToPersianWords(10n ** 30n + 7n), "یک تریلیون کوینتیلیون و هفت");
+});
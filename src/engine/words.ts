@@ -0,0 +1,66 @@
+/* ======================= Persian number to words (BigInt) ======================= */
+// lookup tables, indexed by digit value
+export const ones = ["", "یک", "دو", "سه", "چهار", "پنج", "شش", "هفت", "هشت", "نه"];
+export const tens = ["", "ده", "بیست", "سی", "چهل", "پنجاه", "شصت", "هفتاد", "هشتاد", "نود"];
+export const hundreds = ["", "صد", "دویست", "سیصد", "چهارصد", "پانصد", "ششصد", "هفتصد", "هشتصد", "نهصد"];
+export const teens: Record<number, string> = {
+  11: "یازده",
+  12: "دوازده",
+  13: "سیزده",
+  14: "چهارده",
+  15: "پانزده",
+  16: "شانزده",
+  17: "هفده",
+  18: "هجده",
+  19: "نوزده",
+};
+// one entry per power of 1000
+export const scales = ["", "هزار", "میلیون", "میلیارد", "تریلیون", "کوادریلیون", "کوینتیلیون"];
+
+/** Name of 1000^idx; past the end of the table, the largest scale is stacked ("هزار کوینتیلیون"). */
+export const scaleName = (table: string[], idx: number): string => {
+  const top = table.length - 1;
+  if (idx <= top) return table[idx];
+  return `${scaleName(table, idx - top)} ${table[top]}`;
+};
+
+/** Convert a 0..999 triplet to Persian words, joined with " و ". 0 → "". */
+export const tripletToFaWords = (n: number) => {
+  const parts: string[] = [];
+  if (n >= 100) {
+    parts.push(hundreds[Math.floor(n / 100)]);
+    n %= 100;
+  }
+  if (n === 0) return parts.join(" و ");
+  if (n > 10 && n < 20) {
+    parts.push(teens[n]);
+    return parts.join(" و ");
+  }
+  if (n >= 10) {
+    parts.push(tens[Math.floor(n / 10)]);
+    n %= 10;
+  }
+  if (n > 0) parts.push(ones[n]);
+  return parts.filter(Boolean).join(" و ");
+};
+
+/** BigInt → Persian words (arbitrary size). 0 → "صفر", negatives get "منفی". */
+export const bigIntToPersianWords = (num: bigint): string => {
+  if (num === 0n) return "صفر";
+  const neg = num < 0n;
+  let n = neg ? -num : num;
+  const parts: string[] = [];
+  let scaleIdx = 0;
+  while (n > 0n) {
+    const chunk = Number(n % 1000n); // safe: < 1000
+    if (chunk) {
+      const words = tripletToFaWords(chunk);
+      const scale = scaleName(scales, scaleIdx);
+      parts.unshift(scale ? `${words} ${scale}` : words);
+    }
+    n = n / 1000n;
+    scaleIdx++;
+  }
+  const out = parts.join(" و ");
+  return neg ? `منفی ${out}` : out;
+};
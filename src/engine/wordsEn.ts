@@ -0,0 +1,71 @@
+/* ======================= English number to words (BigInt) ======================= */
+import { scaleName } from "./words";
+
+const onesEn = ["", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine"];
+const teensEn = [
+  "ten",
+  "eleven",
+  "twelve",
+  "thirteen",
+  "fourteen",
+  "fifteen",
+  "sixteen",
+  "seventeen",
+  "eighteen",
+  "nineteen",
+];
+const tensEn = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+// short scale, one entry per power of 1000
+const scalesEn = [
+  "",
+  "thousand",
+  "million",
+  "billion",
+  "trillion",
+  "quadrillion",
+  "quintillion",
+  "sextillion",
+  "septillion",
+  "octillion",
+  "nonillion",
+  "decillion",
+];
+
+/** Convert a 0..999 triplet to English words ("five hundred fifty-five"). 0 → "". */
+export const tripletToEnWords = (n: number) => {
+  const parts: string[] = [];
+  if (n >= 100) {
+    parts.push(`${onesEn[Math.floor(n / 100)]} hundred`);
+    n %= 100;
+  }
+  if (n >= 20) {
+    const t = tensEn[Math.floor(n / 10)];
+    parts.push(n % 10 ? `${t}-${onesEn[n % 10]}` : t);
+  } else if (n >= 10) {
+    parts.push(teensEn[n - 10]);
+  } else if (n > 0) {
+    parts.push(onesEn[n]);
+  }
+  return parts.join(" ");
+};
+
+/** BigInt → English words (arbitrary size). 0 → "zero", negatives get "minus". */
+export const bigIntToEnglishWords = (num: bigint): string => {
+  if (num === 0n) return "zero";
+  const neg = num < 0n;
+  let n = neg ? -num : num;
+  const parts: string[] = [];
+  let scaleIdx = 0;
+  while (n > 0n) {
+    const chunk = Number(n % 1000n); // safe: < 1000
+    if (chunk) {
+      const words = tripletToEnWords(chunk);
+      const scale = scaleName(scalesEn, scaleIdx);
+      parts.unshift(scale ? `${words} ${scale}` : words);
+    }
+    n = n / 1000n;
+    scaleIdx++;
+  }
+  const out = parts.join(" ");
+  return neg ? `minus ${out}` : out;
+};
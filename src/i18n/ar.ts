@@ -0,0 +1,214 @@
+import type { MessageKey } from "./fa";
+
+export const ar: Record<MessageKey, string> = {
+  title: "الريال القديم ← الريال الجديد",
+  mode_oldRial: "ريال قديم ← ريال جديد/قِران",
+  mode_oldToman: "تومان قديم ← ريال جديد/قِران",
+  mode_newRial: "ريال جديد/قِران ← ريال قديم",
+  mode_newToman: "تومان جديد ← ريال قديم",
+  unit_oldToman: "تومان قديم",
+  unit_oldRial: "ريال قديم",
+  unit_newToman: "تومان جديد",
+  unit_newRial: "ريال جديد",
+  old_rial: "ريال قديم",
+  new_rial: "ريال جديد",
+  qeran: "قِران",
+  and: "و",
+  placeholder_old: "مثلاً 550,000",
+  placeholder_toman_old: "مثلاً 55,000",
+  placeholder_toman_new: "مثلاً 5",
+  placeholder_new: "مثلاً 55",
+  placeholder_new_decimal: "مثلاً 55.40",
+  placeholder_qeran: "مثلاً 40",
+  swap: "⇄ عكس",
+  linked: "كلا الجانبين",
+  linked_title: "ريال قديم ⇄ ريال جديد/قِران",
+  linked_rounded: "≈ الريال الجديد مقرَّب؛ يبقى مبلغ الريال القديم الذي أدخلته",
+  result_new: "ريال جديد",
+  result_old: "ريال قديم",
+  letters_new: "الريال الجديد كتابةً",
+  letters_old: "الريال القديم كتابةً",
+  all_units: "بكل الوحدات",
+  and_rial: "و {amount} ريال",
+  and_new_rial: "و {amount} ريال جديد",
+  rem_dropped: "حُذف {amount} ريال قديم أقل من قِران واحد",
+  rem_rounded_up: "أُضيف {amount} ريال قديم بالتقريب للأعلى",
+  roundtrip_mismatch: "التحويل العكسي غير مطابق: {amount} ريال قديم",
+  rounding: "تقريب القِران",
+  rounding_truncate: "حذف",
+  rounding_halfUp: "نصف للأعلى",
+  rounding_halfEven: "مصرفي",
+  rounding_ceiling: "للأعلى",
+  err_empty: "لم يُعثر على رقم",
+  err_unknown_word: "كلمة غير مفهومة: «{text}»",
+  err_bad_order: "ترتيب غير صحيح قرب «{text}»",
+  err_negative: "المبالغ السالبة غير مقبولة",
+  err_fraction: "«{text}» أدق من ريال قديم واحد",
+  preview: "= {amount} ريال قديم",
+  preview_inexact: "≈ {amount} ريال قديم (حُذف باقي القسمة)",
+  err_syntax: "تعبير غير صحيح قرب «{text}»",
+  err_div_zero: "قسمة على صفر",
+  err_mixed_units: "استخدم التومان أو الريال في العملية الواحدة، لا كليهما",
+  qeran_input: "عرض القِران",
+  qeran_separate: "منفصل",
+  qeran_decimal: "عشري",
+  number_format: "تنسيق الأرقام",
+  number_digits: "الأرقام",
+  number_separator: "الفاصل",
+  number_group_size: "حجم المجموعة",
+  number_auto: "حسب اللغة",
+  separator_none: "بلا",
+  separator_space: "مسافة",
+  ad_title: "مكان إعلانك",
+  ad_contact: "التواصل للإعلان",
+  settings: "الإعدادات",
+  theme: "المظهر",
+  theme_auto: "تلقائي (النظام)",
+  theme_schedule: "حسب الوقت",
+  theme_light: "فاتح",
+  theme_dark: "داكن",
+  theme_contrast: "تباين عالٍ",
+  accent: "لون التمييز",
+  accent_sky: "سماوي",
+  accent_indigo: "نيلي",
+  accent_emerald: "زمردي",
+  accent_rose: "وردي",
+  accent_violet: "بنفسجي",
+  accent_amber: "كهرماني",
+  language: "اللغة",
+  contact: "اتصل بنا",
+  privacy_header: "ملاحظات الخصوصية",
+  privacy_body:
+    "هذا التطبيق يعمل دون اتصال، لا يجمع أي بيانات، ولا يحتاج إلى الإنترنت أو أذونات خاصة.",
+  email_label: "البريد الإلكتروني",
+  close: "إغلاق",
+  copy: "نسخ",
+  copied: "تم النسخ",
+  share: "مشاركة",
+  share_template: "قالب النسخ/المشاركة",
+  template_amount: "المبلغ فقط",
+  template_words: "مع الكتابة",
+  template_bilingual: "فارسي + EN",
+  cheque: "نص الشيك:",
+  cheque_rial: "ريال",
+  cheque_toman: "تومان",
+  history: "السجل",
+  history_search: "ابحث عن مبلغ أو تسمية",
+  history_favorites: "المميّزة",
+  history_empty: "لا يوجد شيء بعد",
+  history_label: "إضافة تسمية",
+  history_clear: "مسح (مع إبقاء المميّزة)",
+  batch: "تحويل جماعي",
+  batch_column: "عمود CSV",
+  batch_column_all: "السطر كله",
+  batch_header: "السطر الأول عنوان",
+  batch_placeholder: "الصق مبلغاً في كل سطر، أو نص CSV",
+  batch_digits: "أرقام الإخراج",
+  batch_text: "نص",
+  err_no_column: "لا يحتوي السطر على هذا العمود: «{text}»",
+  extract: "استخراج المبلغ من النص",
+  extract_placeholder: "الصق نص رسالة البنك أو الفاتورة هنا",
+  extract_none: "لم يُعثر على مبلغ في هذا النص",
+  extract_found: "عُثر على {count} مبلغ في النص؛ اضغط للاختيار",
+  extract_no_unit: "بلا وحدة، اعتُبر ريالاً",
+  cash: "الأوراق والعملات المعدنية",
+  cash_for: "تفصيل {amount}",
+  cash_pieces: "{count} قطعة",
+  cash_remainder: "لا يمكن دفع {amount} قِران بهذا الجدول",
+  cash_sub_qeran: "{amount} ريال قديم أقل من قِران واحد ولا يُدفع نقداً",
+  cash_not_minimal: "جدول غير منتظم؛ قد لا يكون هذا التفصيل الأقل عدداً",
+  change: "حساب الباقي",
+  change_paid: "المدفوع",
+  change_owed: "المستحق",
+  change_result: "الباقي: {amount}",
+  change_short: "ينقص {amount}",
+  denominations: "الفئات",
+  denominations_add: "إضافة",
+  denominations_reset: "الافتراضي",
+  split: "تقسيم المبلغ",
+  split_for: "تقسيم {amount}",
+  split_equal: "بالتساوي",
+  split_weights: "بالنسبة",
+  split_percent: "بالنسبة المئوية",
+  split_count: "عدد الحصص أو الأقساط",
+  split_weights_placeholder: "مثلاً ٢، ١، ١",
+  split_percent_placeholder: "مثلاً ٥٠، ٣٠، ٢٠",
+  split_bad_weight: "حصة غير صالحة: «{text}»",
+  split_percent_total: "مجموع النسب {total}٪ وليس ١٠٠٪",
+  split_too_many: "{max} حصة على الأكثر",
+  split_share: "الحصة",
+  split_total: "المجموع",
+  split_sub_qeran: "أُضيف {amount} ريال قديم أقل من قِران واحد إلى الحصة الأولى",
+  currency: "العملات",
+  currency_USD: "دولار أمريكي",
+  currency_EUR: "يورو",
+  currency_AED: "درهم إماراتي",
+  currency_amount: "المبلغ",
+  currency_from: "وحدة المبلغ",
+  currency_no_rate: "لم يُدخل سعر {code}",
+  rates: "الأسعار (ريال قديم لكل وحدة)",
+  rate_date: "التاريخ (YYYY-MM-DD)",
+  rate_source: "المصدر",
+  rate_age_today: "سعر اليوم",
+  rate_age_days: "قبل {days} يوم",
+  rate_bad: "سعر غير صالح",
+  rate_bad_date: "يجب أن يكون التاريخ بصيغة YYYY-MM-DD",
+  rates_export: "تصدير",
+  rates_import: "استيراد",
+  rates_import_placeholder: "الصق JSON أو CSV هنا: code, rate, date, source",
+  rates_imported: "تم استيراد {count} سعر",
+  rates_import_error: "تعذّرت قراءة السطر {line}: {text}",
+  invoice: "الفاتورة",
+  invoice_new: "فاتورة جديدة",
+  invoice_untitled: "بلا عنوان",
+  invoice_title: "عنوان الفاتورة",
+  invoice_item: "السلعة أو الخدمة",
+  invoice_qty: "الكمية",
+  invoice_price: "سعر الوحدة",
+  invoice_discount: "الخصم ٪",
+  invoice_add_line: "إضافة سطر",
+  invoice_vat: "ضريبة القيمة المضافة ٪",
+  invoice_subtotal: "المجموع الفرعي",
+  invoice_discount_total: "الخصم",
+  invoice_net: "بعد الخصم",
+  invoice_vat_amount: "الضريبة ({rate}٪)",
+  invoice_total: "الإجمالي",
+  invoice_delete: "حذف الفاتورة",
+  invoice_export: "تصدير",
+  invoice_bad_quantity: "السطر {line}: كمية غير صالحة «{text}»",
+  invoice_bad_unitPrice: "السطر {line}: سعر غير صالح «{text}»",
+  invoice_bad_discount: "السطر {line}: يجب أن يكون الخصم بين ٠ و١٠٠٪ («{text}»)",
+  invoice_bad_vat: "نسبة ضريبة غير صالحة «{text}»",
+  link_invalid: "تعذّر فتح الرابط",
+  link_unknown: "هذا ليس رابط المحوّل: «{text}»",
+  link_no_amount: "لا يحتوي الرابط على مبلغ (old أو toman أو new)",
+  link_many_amounts: "يحتوي الرابط على أكثر من مبلغ: {text}",
+  link_bad_amount: "مبلغ غير صالح في الرابط: «{text}»",
+  link_bad_qeran: "قِران غير صالح في الرابط: «{text}» (من ٠ إلى ٩٩، مع new فقط)",
+  link_bad_lang: "لغة غير معروفة في الرابط: «{text}»",
+  table: "جدول مرجعي",
+  table_title: "العنوان",
+  table_default_title: "الريال القديم ← الريال الجديد",
+  table_range: "نطاق",
+  table_list: "قائمة",
+  table_from: "من",
+  table_to: "إلى",
+  table_step: "الخطوة",
+  table_list_placeholder: "مبالغ بالريال القديم، مبلغ في كل سطر",
+  table_words: "مع الحروف",
+  table_rows: "{count} صف",
+  table_bad_range: "يجب ألا تكون «إلى» أقل من «من»",
+  table_bad_step: "يجب أن تكون الخطوة أكبر من صفر",
+  table_bad_amount: "مبلغ غير صالح: «{text}»",
+  table_too_many: "عدد الصفوف كبير ({text})؛ الحد الأقصى {max}",
+  table_print: "طباعة",
+  table_share: "مشاركة HTML",
+  summary_toman: "ما يعادل {amount} تومان قديم",
+  summary_words: "كتابةً: {text}",
+  batch_error: "خطأ",
+  invoice_invalid: "غير صالح",
+  a11y_favorite: "مفضّل",
+  a11y_remove: "حذف",
+  a11y_empty: "فارغ",
+  a11y_swap: "عكس اتجاه التحويل",
+};
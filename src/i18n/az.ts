@@ -0,0 +1,214 @@
+import type { MessageKey } from "./fa";
+
+export const az: Record<MessageKey, string> = {
+  title: "Köhnə rial → Yeni rial",
+  mode_oldRial: "Köhnə rial → Yeni rial/qəran",
+  mode_oldToman: "Köhnə tümən → Yeni rial/qəran",
+  mode_newRial: "Yeni rial/qəran → Köhnə rial",
+  mode_newToman: "Yeni tümən → Köhnə rial",
+  unit_oldToman: "Köhnə tümən",
+  unit_oldRial: "Köhnə rial",
+  unit_newToman: "Yeni tümən",
+  unit_newRial: "Yeni rial",
+  old_rial: "Köhnə rial",
+  new_rial: "Yeni rial",
+  qeran: "Qəran",
+  and: "və",
+  placeholder_old: "məs. 550 000",
+  placeholder_toman_old: "məs. 55 000",
+  placeholder_toman_new: "məs. 5",
+  placeholder_new: "məs. 55",
+  placeholder_new_decimal: "məs. 55.40",
+  placeholder_qeran: "məs. 40",
+  swap: "⇄ Dəyiş",
+  linked: "Hər iki tərəf",
+  linked_title: "Köhnə rial ⇄ Yeni rial/qəran",
+  linked_rounded: "≈ Yeni rial yuvarlaqlaşdırılıb; daxil etdiyiniz köhnə rial saxlanılır",
+  result_new: "Yeni rial",
+  result_old: "Köhnə rial",
+  letters_new: "Yeni rial (sözlə)",
+  letters_old: "Köhnə rial (sözlə)",
+  all_units: "Bütün vahidlərdə",
+  and_rial: "+ {amount} rial",
+  and_new_rial: "+ {amount} yeni rial",
+  rem_dropped: "Bir qərandan az {amount} köhnə rial atıldı",
+  rem_rounded_up: "Yuxarı yuvarlaqlaşdırma üçün {amount} köhnə rial əlavə edildi",
+  roundtrip_mismatch: "Geri çevirmə dəqiq deyil: {amount} köhnə rial",
+  rounding: "Qəran yuvarlaqlaşdırması",
+  rounding_truncate: "Kəs",
+  rounding_halfUp: "Yarım yuxarı",
+  rounding_halfEven: "Bank",
+  rounding_ceiling: "Yuxarı",
+  err_empty: "Rəqəm tapılmadı",
+  err_unknown_word: "Tanınmayan söz: “{text}”",
+  err_bad_order: "“{text}” yaxınlığında səhv sıra",
+  err_negative: "Mənfi məbləğ qəbul edilmir",
+  err_fraction: "“{text}” bir köhnə rialdan daha dəqiqdir",
+  preview: "= {amount} köhnə rial",
+  preview_inexact: "≈ {amount} köhnə rial (bölmə qalığı atıldı)",
+  err_syntax: "“{text}” yaxınlığında səhv ifadə",
+  err_div_zero: "Sıfıra bölmə",
+  err_mixed_units: "Bir hesablamada ya tümən, ya da rial yazın, ikisini birlikdə yox",
+  qeran_input: "Qəranın göstərilməsi",
+  qeran_separate: "Ayrı",
+  qeran_decimal: "Onluq",
+  number_format: "Rəqəm formatı",
+  number_digits: "Rəqəmlər",
+  number_separator: "Ayırıcı",
+  number_group_size: "Qrup ölçüsü",
+  number_auto: "Dilə görə",
+  separator_none: "Yoxdur",
+  separator_space: "Boşluq",
+  ad_title: "Reklamınız burada",
+  ad_contact: "Reklam üçün əlaqə",
+  settings: "Ayarlar",
+  theme: "Mövzu",
+  theme_auto: "Avto (sistem)",
+  theme_schedule: "Cədvəl",
+  theme_light: "Açıq",
+  theme_dark: "Tünd",
+  theme_contrast: "Yüksək kontrast",
+  accent: "Vurğu rəngi",
+  accent_sky: "Səma mavisi",
+  accent_indigo: "İndiqo",
+  accent_emerald: "Zümrüd",
+  accent_rose: "Qızılgül",
+  accent_violet: "Bənövşəyi",
+  accent_amber: "Kəhrəba",
+  language: "Dil",
+  contact: "Əlaqə",
+  privacy_header: "Məxfilik qeydləri",
+  privacy_body:
+    "Bu tətbiq oflayn işləyir, heç bir məlumat toplamır, internet və xüsusi icazə tələb etmir.",
+  email_label: "E-poçt",
+  close: "Bağla",
+  copy: "Kopyala",
+  copied: "Kopyalandı",
+  share: "Paylaş",
+  share_template: "Kopyalama/paylaşma şablonu",
+  template_amount: "Yalnız məbləğ",
+  template_words: "Sözlə",
+  template_bilingual: "FA + EN",
+  cheque: "Çek mətni:",
+  cheque_rial: "Rial",
+  cheque_toman: "Tümən",
+  history: "Tarixçə",
+  history_search: "Məbləğ və ya etiket axtar",
+  history_favorites: "Seçilmiş",
+  history_empty: "Hələ heç nə yoxdur",
+  history_label: "Etiket əlavə et",
+  history_clear: "Təmizlə (seçilmişlər qalsın)",
+  batch: "Toplu çevirmə",
+  batch_column: "CSV sütunu",
+  batch_column_all: "bütün sətir",
+  batch_header: "Birinci sətir başlıqdır",
+  batch_placeholder: "Hər sətirdə bir məbləğ və ya CSV mətni yapışdırın",
+  batch_digits: "Çıxış rəqəmləri",
+  batch_text: "Mətn",
+  err_no_column: "Sətirdə belə sütun yoxdur: “{text}”",
+  extract: "Mətndən məbləği çıxar",
+  extract_placeholder: "Bank SMS-ini və ya faktura mətnini bura yapışdırın",
+  extract_none: "Bu mətndə məbləğ tapılmadı",
+  extract_found: "Mətndə {count} məbləğ tapıldı; seçmək üçün toxunun",
+  extract_no_unit: "vahid yoxdur, rial sayıldı",
+  cash: "Əskinas və sikkələr",
+  cash_for: "{amount} bölgüsü",
+  cash_pieces: "{count} ədəd",
+  cash_remainder: "{amount} qəran bu cədvəllə ödənilə bilməz",
+  cash_sub_qeran: "{amount} köhnə rial bir qərandan azdır və nağd ödənilmir",
+  cash_not_minimal: "Qeyri-müntəzəm cədvəl: bu bölgü ən az ədəd olmaya bilər",
+  change: "Qaytarılacaq pul",
+  change_paid: "Ödənilən",
+  change_owed: "Borc",
+  change_result: "Qalıq: {amount}",
+  change_short: "{amount} çatışmır",
+  denominations: "Nominallar",
+  denominations_add: "Əlavə et",
+  denominations_reset: "Standart",
+  split: "Bölmə",
+  split_for: "{amount} bölünür",
+  split_equal: "Bərabər",
+  split_weights: "Nisbətlə",
+  split_percent: "Faizlə",
+  split_count: "Pay və ya taksit sayı",
+  split_weights_placeholder: "məs. 2, 1, 1",
+  split_percent_placeholder: "məs. 50, 30, 20",
+  split_bad_weight: "Yanlış pay: “{text}”",
+  split_percent_total: "Faizlərin cəmi {total}%-dir, 100% deyil",
+  split_too_many: "Ən çox {max} pay",
+  split_share: "Pay",
+  split_total: "Cəmi",
+  split_sub_qeran: "Bir qərandan az {amount} köhnə rial birinci paya əlavə edildi",
+  currency: "Valyutalar",
+  currency_USD: "ABŞ dolları",
+  currency_EUR: "Avro",
+  currency_AED: "BƏƏ dirhəmi",
+  currency_amount: "Məbləğ",
+  currency_from: "Məbləğin vahidi",
+  currency_no_rate: "{code} üçün məzənnə daxil edilməyib",
+  rates: "Məzənnələr (vahid üçün köhnə rial)",
+  rate_date: "Tarix (YYYY-MM-DD)",
+  rate_source: "Mənbə",
+  rate_age_today: "Bugünkü məzənnə",
+  rate_age_days: "{days} gün əvvəl",
+  rate_bad: "Yanlış məzənnə",
+  rate_bad_date: "Tarix YYYY-MM-DD formatında olmalıdır",
+  rates_export: "İxrac",
+  rates_import: "İdxal",
+  rates_import_placeholder: "JSON və ya CSV-ni bura yapışdırın: code, rate, date, source",
+  rates_imported: "{count} məzənnə idxal edildi",
+  rates_import_error: "{line}-ci sətir oxunmadı: {text}",
+  invoice: "Faktura",
+  invoice_new: "Yeni faktura",
+  invoice_untitled: "Adsız",
+  invoice_title: "Fakturanın adı",
+  invoice_item: "Mal və ya xidmət",
+  invoice_qty: "Say",
+  invoice_price: "Vahid qiyməti",
+  invoice_discount: "Endirim %",
+  invoice_add_line: "Sətir əlavə et",
+  invoice_vat: "ƏDV %",
+  invoice_subtotal: "Aralıq cəm",
+  invoice_discount_total: "Endirim",
+  invoice_net: "Endirimdən sonra",
+  invoice_vat_amount: "ƏDV ({rate}%)",
+  invoice_total: "Yekun",
+  invoice_delete: "Fakturanı sil",
+  invoice_export: "İxrac",
+  invoice_bad_quantity: "{line}-ci sətir: yanlış say “{text}”",
+  invoice_bad_unitPrice: "{line}-ci sətir: yanlış qiymət “{text}”",
+  invoice_bad_discount: "{line}-ci sətir: endirim 0–100% olmalıdır (“{text}”)",
+  invoice_bad_vat: "Yanlış ƏDV dərəcəsi “{text}”",
+  link_invalid: "Keçid açılmadı",
+  link_unknown: "Bu, çevirici keçidi deyil: “{text}”",
+  link_no_amount: "Keçiddə məbləğ yoxdur (old, toman və ya new)",
+  link_many_amounts: "Keçiddə birdən çox məbləğ var: {text}",
+  link_bad_amount: "Keçiddə yanlış məbləğ: “{text}”",
+  link_bad_qeran: "Keçiddə yanlış qəran: “{text}” (0–99, yalnız new ilə)",
+  link_bad_lang: "Keçiddə naməlum dil: “{text}”",
+  table: "İstinad cədvəli",
+  table_title: "Başlıq",
+  table_default_title: "Köhnə rial → yeni rial",
+  table_range: "Aralıq",
+  table_list: "Siyahı",
+  table_from: "Başlanğıc",
+  table_to: "Son",
+  table_step: "Addım",
+  table_list_placeholder: "Köhnə rialla məbləğlər, hər sətirdə biri",
+  table_words: "Sözlə yazılışı ilə",
+  table_rows: "{count} sətir",
+  table_bad_range: "“Son” “Başlanğıc”dan kiçik olmamalıdır",
+  table_bad_step: "Addım sıfırdan böyük olmalıdır",
+  table_bad_amount: "Yanlış məbləğ: “{text}”",
+  table_too_many: "Sətir çox çoxdur ({text}); ən çox {max}",
+  table_print: "Çap et",
+  table_share: "HTML paylaş",
+  summary_toman: "{amount} köhnə tümənə bərabərdir",
+  summary_words: "Sözlə: {text}",
+  batch_error: "xəta",
+  invoice_invalid: "yanlış",
+  a11y_favorite: "Seçilmiş",
+  a11y_remove: "Sil",
+  a11y_empty: "Boş",
+  a11y_swap: "Çevirmə istiqamətini dəyiş",
+};
@@ -0,0 +1,214 @@
+import type { MessageKey } from "./fa";
+
+export const en: Record<MessageKey, string> = {
+  title: "Old Rial → New Rial",
+  mode_oldRial: "Old Rial → New Rial/Qeran",
+  mode_oldToman: "Old Toman → New Rial/Qeran",
+  mode_newRial: "New Rial/Qeran → Old Rial",
+  mode_newToman: "New Toman → Old Rial",
+  unit_oldToman: "Old Toman",
+  unit_oldRial: "Old Rial",
+  unit_newToman: "New Toman",
+  unit_newRial: "New Rial",
+  old_rial: "Old Rial",
+  new_rial: "New Rial",
+  qeran: "Qeran",
+  and: "&",
+  placeholder_old: "e.g. 550,000",
+  placeholder_toman_old: "e.g. 55,000",
+  placeholder_toman_new: "e.g. 5",
+  placeholder_new: "e.g. 55",
+  placeholder_new_decimal: "e.g. 55.40",
+  placeholder_qeran: "e.g. 40",
+  swap: "⇄ Swap",
+  linked: "Both sides",
+  linked_title: "Old Rial ⇄ New Rial/Qeran",
+  linked_rounded: "≈ New rial is rounded; the old-rial amount you entered is kept",
+  result_new: "New Rial",
+  result_old: "Old Rial",
+  letters_new: "New Rial (in words)",
+  letters_old: "Old Rial (in words)",
+  all_units: "In every unit",
+  and_rial: "+ {amount} rial(s)",
+  and_new_rial: "+ {amount} new rial(s)",
+  rem_dropped: "{amount} old rial(s) below one qeran dropped",
+  rem_rounded_up: "{amount} old rial(s) added by rounding up",
+  roundtrip_mismatch: "Does not convert back exactly: {amount} old rial(s)",
+  rounding: "Qeran rounding",
+  rounding_truncate: "Truncate",
+  rounding_halfUp: "Half-up",
+  rounding_halfEven: "Banker's",
+  rounding_ceiling: "Ceiling",
+  err_empty: "No number found",
+  err_unknown_word: "Unrecognized word: “{text}”",
+  err_bad_order: "Words out of order near “{text}”",
+  err_negative: "Negative amounts are not allowed",
+  err_fraction: "“{text}” is finer than one old rial",
+  preview: "= {amount} old rial(s)",
+  preview_inexact: "≈ {amount} old rial(s) (division remainder dropped)",
+  err_syntax: "Invalid expression near “{text}”",
+  err_div_zero: "Division by zero",
+  err_mixed_units: "Use either toman or rial in one calculation, not both",
+  qeran_input: "Qeran shown as",
+  qeran_separate: "Separate",
+  qeran_decimal: "Decimal",
+  number_format: "Number format",
+  number_digits: "Digits",
+  number_separator: "Separator",
+  number_group_size: "Group size",
+  number_auto: "Language",
+  separator_none: "None",
+  separator_space: "Space",
+  ad_title: "Your Ad Here",
+  ad_contact: "Ad Contact",
+  settings: "Settings",
+  theme: "Theme",
+  theme_auto: "Auto (system)",
+  theme_schedule: "Schedule",
+  theme_light: "Light",
+  theme_dark: "Dark",
+  theme_contrast: "High contrast",
+  accent: "Accent",
+  accent_sky: "Sky",
+  accent_indigo: "Indigo",
+  accent_emerald: "Emerald",
+  accent_rose: "Rose",
+  accent_violet: "Violet",
+  accent_amber: "Amber",
+  language: "Language",
+  contact: "Contact Us",
+  privacy_header: "Privacy Notes",
+  privacy_body:
+    "This app works offline, collects no data, requires no network or special permissions.",
+  email_label: "Email",
+  close: "Close",
+  copy: "Copy",
+  copied: "Copied",
+  share: "Share",
+  share_template: "Copy/share template",
+  template_amount: "Amount only",
+  template_words: "With words",
+  template_bilingual: "FA + EN",
+  cheque: "Cheque wording:",
+  cheque_rial: "Rial",
+  cheque_toman: "Toman",
+  history: "History",
+  history_search: "Search amount or label",
+  history_favorites: "Starred",
+  history_empty: "Nothing recorded yet",
+  history_label: "Add label",
+  history_clear: "Clear (keep starred)",
+  batch: "Batch convert",
+  batch_column: "CSV column",
+  batch_column_all: "whole line",
+  batch_header: "First line is a header",
+  batch_placeholder: "Paste one amount per line, or CSV text",
+  batch_digits: "Output digits",
+  batch_text: "Text",
+  err_no_column: "Row has no such column: “{text}”",
+  extract: "Find amounts in text",
+  extract_placeholder: "Paste a bank SMS or invoice text here",
+  extract_none: "No amounts found in this text",
+  extract_found: "{count} amount(s) found in the text; tap to pick one",
+  extract_no_unit: "no unit, read as rial",
+  cash: "Notes & coins",
+  cash_for: "Breakdown of {amount}",
+  cash_pieces: "{count} pieces",
+  cash_remainder: "{amount} qeran can't be made from this table",
+  cash_sub_qeran: "{amount} old rial is below one qeran and can't be paid in cash",
+  cash_not_minimal: "Irregular table: this split may not be the fewest pieces",
+  change: "Change due",
+  change_paid: "Paid",
+  change_owed: "Owed",
+  change_result: "Change: {amount}",
+  change_short: "{amount} short",
+  denominations: "Denominations",
+  denominations_add: "Add",
+  denominations_reset: "Defaults",
+  split: "Split",
+  split_for: "Splitting {amount}",
+  split_equal: "Equal",
+  split_weights: "Weights",
+  split_percent: "Percent",
+  split_count: "Number of shares or instalments",
+  split_weights_placeholder: "e.g. 2, 1, 1",
+  split_percent_placeholder: "e.g. 50, 30, 20",
+  split_bad_weight: "Invalid share: “{text}”",
+  split_percent_total: "Percentages add up to {total}%, not 100%",
+  split_too_many: "At most {max} shares",
+  split_share: "Share",
+  split_total: "Total",
+  split_sub_qeran: "{amount} old rial below one qeran was added to the first share",
+  currency: "Currencies",
+  currency_USD: "US dollar",
+  currency_EUR: "Euro",
+  currency_AED: "UAE dirham",
+  currency_amount: "Amount",
+  currency_from: "Amount in",
+  currency_no_rate: "No rate entered for {code}",
+  rates: "Rates (old rial per unit)",
+  rate_date: "Date (YYYY-MM-DD)",
+  rate_source: "Source",
+  rate_age_today: "Today's rate",
+  rate_age_days: "{days} day(s) old",
+  rate_bad: "Invalid rate",
+  rate_bad_date: "Date must be YYYY-MM-DD",
+  rates_export: "Export",
+  rates_import: "Import",
+  rates_import_placeholder: "Paste JSON or CSV here: code, rate, date, source",
+  rates_imported: "{count} rate(s) imported",
+  rates_import_error: "Line {line} could not be read: {text}",
+  invoice: "Invoice",
+  invoice_new: "New invoice",
+  invoice_untitled: "Untitled",
+  invoice_title: "Invoice title",
+  invoice_item: "Item or service",
+  invoice_qty: "Qty",
+  invoice_price: "Unit price",
+  invoice_discount: "Discount %",
+  invoice_add_line: "Add line",
+  invoice_vat: "VAT %",
+  invoice_subtotal: "Subtotal",
+  invoice_discount_total: "Discount",
+  invoice_net: "After discount",
+  invoice_vat_amount: "VAT ({rate}%)",
+  invoice_total: "Total",
+  invoice_delete: "Delete invoice",
+  invoice_export: "Export",
+  invoice_bad_quantity: "Line {line}: invalid quantity “{text}”",
+  invoice_bad_unitPrice: "Line {line}: invalid price “{text}”",
+  invoice_bad_discount: "Line {line}: discount must be 0–100% (“{text}”)",
+  invoice_bad_vat: "Invalid VAT rate “{text}”",
+  link_invalid: "Link not opened",
+  link_unknown: "This isn’t a converter link: “{text}”",
+  link_no_amount: "The link has no amount (old, toman or new)",
+  link_many_amounts: "The link has more than one amount: {text}",
+  link_bad_amount: "Invalid amount in the link: “{text}”",
+  link_bad_qeran: "Invalid qeran in the link: “{text}” (0 to 99, only with new)",
+  link_bad_lang: "Unknown language in the link: “{text}”",
+  table: "Reference table",
+  table_title: "Title",
+  table_default_title: "Old rial → new rial",
+  table_range: "Range",
+  table_list: "List",
+  table_from: "From",
+  table_to: "To",
+  table_step: "Step",
+  table_list_placeholder: "Old-rial amounts, one per line",
+  table_words: "Include words",
+  table_rows: "{count} rows",
+  table_bad_range: "“To” must not be less than “From”",
+  table_bad_step: "The step must be more than zero",
+  table_bad_amount: "Invalid amount: “{text}”",
+  table_too_many: "Too many rows ({text}); at most {max}",
+  table_print: "Print",
+  table_share: "Share HTML",
+  summary_toman: "Equals {amount} Old Toman",
+  summary_words: "In words: {text}",
+  batch_error: "error",
+  invoice_invalid: "invalid",
+  a11y_favorite: "Favourite",
+  a11y_remove: "Remove",
+  a11y_empty: "Empty",
+  a11y_swap: "Swap conversion direction",
+};
@@ -0,0 +1,215 @@
+// Persian is the source locale: its keys define MessageKey for every other locale
+export const fa = {
+  title: "تبدیل ریال قدیم به ریال جدید",
+  mode_oldRial: "ریال قدیم → ریال جدید/قِران",
+  mode_oldToman: "تومان قدیم → ریال جدید/قِران",
+  mode_newRial: "ریال جدید/قِران → ریال قدیم",
+  mode_newToman: "تومان جدید → ریال قدیم",
+  unit_oldToman: "تومان قدیم",
+  unit_oldRial: "ریال قدیم",
+  unit_newToman: "تومان جدید",
+  unit_newRial: "ریال جدید",
+  old_rial: "ریال قدیم",
+  new_rial: "ریال جدید",
+  qeran: "قِران",
+  and: "و",
+  placeholder_old: "مثلاً 550,000",
+  placeholder_toman_old: "مثلاً 55,000",
+  placeholder_toman_new: "مثلاً 5",
+  placeholder_new: "مثلاً 55",
+  placeholder_new_decimal: "مثلاً 55.40",
+  placeholder_qeran: "مثلاً 40",
+  swap: "⇄ برعکس",
+  linked: "هر دو طرف",
+  linked_title: "ریال قدیم ⇄ ریال جدید/قِران",
+  linked_rounded: "≈ ریال جدید گرد شده؛ ریال قدیمِ واردشده حفظ می‌شود",
+  result_new: "ریال جدید",
+  result_old: "ریال قدیم",
+  letters_new: "ریال جدید به حروف",
+  letters_old: "ریال قدیم به حروف",
+  all_units: "در همهٔ واحدها",
+  and_rial: "و {amount} ریال",
+  and_new_rial: "و {amount} ریال جدید",
+  rem_dropped: "{amount} ریال قدیم کمتر از یک قِران حذف شد",
+  rem_rounded_up: "{amount} ریال قدیم برای گرد کردن به بالا افزوده شد",
+  roundtrip_mismatch: "برگشت به ریال قدیم دقیق نیست: {amount} ریال قدیم",
+  rounding: "گرد کردن قِران",
+  rounding_truncate: "حذف",
+  rounding_halfUp: "نیم به بالا",
+  rounding_halfEven: "بانکی",
+  rounding_ceiling: "سقف",
+  err_empty: "عددی پیدا نشد",
+  err_unknown_word: "واژهٔ نامفهوم: «{text}»",
+  err_bad_order: "ترتیب نادرست عدد نزدیک «{text}»",
+  err_negative: "مبلغ منفی پذیرفته نیست",
+  err_fraction: "«{text}» از کوچک‌ترین واحد ریال دقیق‌تر است",
+  preview: "= {amount} ریال قدیم",
+  preview_inexact: "≈ {amount} ریال قدیم (باقیماندهٔ تقسیم حذف شد)",
+  err_syntax: "عبارت نادرست نزدیک «{text}»",
+  err_div_zero: "تقسیم بر صفر",
+  err_mixed_units: "تومان و ریال را در یک محاسبه با هم ننویسید",
+  qeran_input: "نمایش قِران",
+  qeran_separate: "جدا",
+  qeran_decimal: "اعشاری",
+  number_format: "قالب اعداد",
+  number_digits: "ارقام",
+  number_separator: "جداکننده",
+  number_group_size: "اندازهٔ دسته",
+  number_auto: "مطابق زبان",
+  separator_none: "بدون",
+  separator_space: "فاصله",
+  ad_title: "محل تبلیغ شما",
+  ad_contact: "تماس تبلیغات",
+  settings: "تنظیمات",
+  theme: "تم",
+  theme_auto: "خودکار (سیستم)",
+  theme_schedule: "زمان‌بندی",
+  theme_light: "روز",
+  theme_dark: "شب",
+  theme_contrast: "کنتراست بالا",
+  accent: "رنگ تأکیدی",
+  accent_sky: "آبی آسمانی",
+  accent_indigo: "نیلی",
+  accent_emerald: "زمردی",
+  accent_rose: "سرخابی",
+  accent_violet: "بنفش",
+  accent_amber: "کهربایی",
+  language: "زبان",
+  contact: "ارتباط با ما",
+  privacy_header: "توضیحات حریم‌خصوصی",
+  privacy_body:
+    "این اپ آفلاین است، هیچ داده‌ای جمع‌آوری نمی‌کند، به اینترنت نیاز ندارد و هیچ مجوز خاصی درخواست نمی‌کند.",
+  email_label: "ایمیل",
+  close: "بستن",
+  copy: "کپی",
+  copied: "کپی شد",
+  share: "اشتراک‌گذاری",
+  share_template: "قالب کپی/اشتراک",
+  template_amount: "فقط مبلغ",
+  template_words: "با حروف",
+  template_bilingual: "فارسی + EN",
+  cheque: "متن چک:",
+  cheque_rial: "ریال",
+  cheque_toman: "تومان",
+  history: "تاریخچه",
+  history_search: "جستجوی مبلغ یا برچسب",
+  history_favorites: "نشان‌شده",
+  history_empty: "چیزی ثبت نشده",
+  history_label: "افزودن برچسب",
+  history_clear: "پاک کردن (به‌جز نشان‌شده‌ها)",
+  batch: "تبدیل گروهی",
+  batch_column: "ستون CSV",
+  batch_column_all: "کل سطر",
+  batch_header: "سطر اول عنوان است",
+  batch_placeholder: "هر مبلغ در یک سطر، یا متن CSV را اینجا بچسبانید",
+  batch_digits: "ارقام خروجی",
+  batch_text: "متن",
+  err_no_column: "این سطر ستون خواسته‌شده را ندارد: «{text}»",
+  extract: "استخراج مبلغ از متن",
+  extract_placeholder: "متن پیامک بانک یا فاکتور را اینجا بچسبانید",
+  extract_none: "مبلغی در این متن پیدا نشد",
+  extract_found: "{count} مبلغ در متن پیدا شد؛ برای انتخاب بزنید",
+  extract_no_unit: "بدون واحد، ریال فرض شد",
+  cash: "اسکناس و سکه",
+  cash_for: "ترکیب {amount}",
+  cash_pieces: "{count} عدد",
+  cash_remainder: "{amount} قِران با این جدول پرداخت‌شدنی نیست",
+  cash_sub_qeran: "{amount} ریال قدیم کمتر از یک قِران است و نقدی پرداخت نمی‌شود",
+  cash_not_minimal: "جدول نامنظم است؛ این ترکیب ممکن است کمترین تعداد نباشد",
+  change: "محاسبهٔ پول خرد",
+  change_paid: "پرداختی",
+  change_owed: "مبلغ فاکتور",
+  change_result: "باقی‌مانده: {amount}",
+  change_short: "{amount} کم است",
+  denominations: "جدول اسکناس و سکه",
+  denominations_add: "افزودن",
+  denominations_reset: "پیش‌فرض",
+  split: "تقسیم مبلغ",
+  split_for: "تقسیم {amount}",
+  split_equal: "مساوی",
+  split_weights: "به نسبت",
+  split_percent: "درصدی",
+  split_count: "تعداد سهم یا قسط",
+  split_weights_placeholder: "مثلاً ۲، ۱، ۱",
+  split_percent_placeholder: "مثلاً ۵۰، ۳۰، ۲۰",
+  split_bad_weight: "سهم نامعتبر: «{text}»",
+  split_percent_total: "جمع درصدها {total}٪ است، باید ۱۰۰٪ باشد",
+  split_too_many: "حداکثر {max} سهم",
+  split_share: "سهم",
+  split_total: "جمع",
+  split_sub_qeran: "{amount} ریال قدیمِ کمتر از یک قِران به سهم اول اضافه شد",
+  currency: "ارز",
+  currency_USD: "دلار آمریکا",
+  currency_EUR: "یورو",
+  currency_AED: "درهم امارات",
+  currency_amount: "مبلغ",
+  currency_from: "واحد مبلغ",
+  currency_no_rate: "نرخ {code} وارد نشده است",
+  rates: "نرخ‌ها (ریال قدیم برای هر واحد)",
+  rate_date: "تاریخ (YYYY-MM-DD)",
+  rate_source: "منبع",
+  rate_age_today: "نرخ امروز",
+  rate_age_days: "{days} روز پیش",
+  rate_bad: "نرخ نامعتبر است",
+  rate_bad_date: "تاریخ باید به شکل YYYY-MM-DD باشد",
+  rates_export: "خروجی",
+  rates_import: "ورود",
+  rates_import_placeholder: "JSON یا CSV را اینجا بچسبانید: code, rate, date, source",
+  rates_imported: "{count} نرخ وارد شد",
+  rates_import_error: "سطر {line} خوانده نشد: {text}",
+  invoice: "فاکتور",
+  invoice_new: "فاکتور جدید",
+  invoice_untitled: "بدون عنوان",
+  invoice_title: "عنوان فاکتور",
+  invoice_item: "شرح کالا یا خدمت",
+  invoice_qty: "تعداد",
+  invoice_price: "قیمت واحد",
+  invoice_discount: "تخفیف ٪",
+  invoice_add_line: "افزودن ردیف",
+  invoice_vat: "مالیات بر ارزش افزوده ٪",
+  invoice_subtotal: "جمع",
+  invoice_discount_total: "تخفیف",
+  invoice_net: "جمع پس از تخفیف",
+  invoice_vat_amount: "مالیات ({rate}٪)",
+  invoice_total: "مبلغ قابل پرداخت",
+  invoice_delete: "حذف فاکتور",
+  invoice_export: "خروجی",
+  invoice_bad_quantity: "ردیف {line}: تعداد نامعتبر «{text}»",
+  invoice_bad_unitPrice: "ردیف {line}: قیمت نامعتبر «{text}»",
+  invoice_bad_discount: "ردیف {line}: تخفیف باید بین ۰ تا ۱۰۰٪ باشد («{text}»)",
+  invoice_bad_vat: "نرخ مالیات نامعتبر «{text}»",
+  link_invalid: "لینک باز نشد",
+  link_unknown: "این لینک مبدل نیست: «{text}»",
+  link_no_amount: "لینک مبلغی ندارد (old، toman یا new)",
+  link_many_amounts: "لینک بیش از یک مبلغ دارد: {text}",
+  link_bad_amount: "مبلغ لینک نامعتبر است: «{text}»",
+  link_bad_qeran: "قِران لینک نامعتبر است: «{text}» (۰ تا ۹۹، فقط همراه new)",
+  link_bad_lang: "زبان لینک ناشناخته است: «{text}»",
+  table: "جدول مرجع",
+  table_title: "عنوان",
+  table_default_title: "ریال قدیم ← ریال جدید",
+  table_range: "بازه",
+  table_list: "فهرست",
+  table_from: "از",
+  table_to: "تا",
+  table_step: "گام",
+  table_list_placeholder: "مبالغ به ریال قدیم، هر خط یکی",
+  table_words: "همراه با حروف",
+  table_rows: "{count} ردیف",
+  table_bad_range: "«تا» نباید کمتر از «از» باشد",
+  table_bad_step: "گام باید بیشتر از صفر باشد",
+  table_bad_amount: "مبلغ نامعتبر: «{text}»",
+  table_too_many: "ردیف‌ها زیادند ({text})؛ حداکثر {max}",
+  table_print: "چاپ",
+  table_share: "اشتراک HTML",
+  summary_toman: "معادل {amount} تومان قدیم",
+  summary_words: "به حروف: {text}",
+  batch_error: "خطا",
+  invoice_invalid: "نامعتبر",
+  a11y_favorite: "نشان کردن",
+  a11y_remove: "حذف",
+  a11y_empty: "خالی",
+  a11y_swap: "تعویض جهت تبدیل",
+};
+
+export type MessageKey = keyof typeof fa;
@@ -0,0 +1,142 @@
+/* ======================= i18n: locales, typed messages, layout direction ======================= */
+import {
+  bigIntToWords,
+  decimalPoint,
+  formatDecimal,
+  formatNumber,
+  groupPlain,
+  mapDigits,
+  type Lang,
+  type NumberFormat,
+} from "../engine";
+import { fa, type MessageKey } from "./fa";
+import { en } from "./en";
+import { ar } from "./ar";
+import { az } from "./az";
+
+export type { MessageKey };
+
+export type Locale = "fa" | "en" | "ar" | "az";
+
+export type LocaleDef = {
+  label: string; // shown on the language chip
+  name: string; // the language's own name, read out by screen readers
+  dir: "rtl" | "ltr";
+  number: NumberFormat;
+  words: Lang; // number words and cheque wording exist in fa and en only
+  dateLocale: string; // BCP 47 tag for dates
+  messages: Record<MessageKey, string>;
+};
+
+export const LOCALES: Record<Locale, LocaleDef> = {
+  fa: {
+    label: "FA",
+    name: "فارسی",
+    dir: "rtl",
+    number: { digits: "persian", separator: "٬", groupSize: 3 },
+    words: "fa",
+    dateLocale: "fa-IR",
+    messages: fa,
+  },
+  en: {
+    label: "EN",
+    name: "English",
+    dir: "ltr",
+    number: { digits: "latin", separator: ",", groupSize: 3 },
+    words: "en",
+    dateLocale: "en-GB",
+    messages: en,
+  },
+  ar: {
+    label: "AR",
+    name: "العربية",
+    dir: "rtl",
+    number: { digits: "arabic", separator: "٬", groupSize: 3 },
+    words: "en",
+    dateLocale: "ar",
+    messages: ar,
+  },
+  az: {
+    label: "AZ",
+    name: "Azərbaycanca",
+    dir: "ltr",
+    // Azerbaijani groups with "." but that would read as a decimal point here; use a no-break space
+    number: { digits: "latin", separator: " ", groupSize: 3 },
+    words: "en",
+    dateLocale: "az",
+    messages: az,
+  },
+};
+
+export const LOCALE_CODES = Object.keys(LOCALES) as Locale[];
+
+export type Params = Record<string, string | number>;
+
+/** Replace {name} placeholders; unknown placeholders are left as they are. */
+export const interpolate = (msg: string, params?: Params) =>
+  params ? msg.replace(/\{(\w+)\}/g, (m, k: string) => (k in params ? String(params[k]) : m)) : msg;
+
+export const translate = (locale: Locale, key: MessageKey, params?: Params) =>
+  interpolate(LOCALES[locale].messages[key], params);
+
+export type Translate = (key: MessageKey, params?: Params) => string;
+
+/** The user's number display choices; a format field left out follows the language. */
+export type DisplayPrefs = {
+  number?: Partial<NumberFormat>;
+  qeranDecimal?: boolean; // "55.40 new rial" instead of "55 new rial and 40 qeran"
+};
+
+export type I18n = {
+  locale: Locale;
+  t: Translate;
+  dir: "rtl" | "ltr";
+  isRTL: boolean;
+  words: Lang;
+  dateLocale: string;
+  number: NumberFormat;
+  qeranDecimal: boolean;
+  /** Decimal point for the digit script: "." or "٫". */
+  point: string;
+  /** Format a BigInt amount in the locale's digits and grouping. */
+  fmt: (n: bigint) => string;
+  /** Format a small number (e.g. qeran) in the locale's digits, without grouping. */
+  fmtSmall: (n: number) => string;
+  /** Whole part and fraction digits, e.g. 5n, "5" → "5.5" / "۵٫۵". */
+  fmtDecimal: (int: bigint, frac: string) => string;
+  /** New rial + qeran as text, separate units or a decimal depending on the preference. */
+  fmtNew: (newRial: bigint, qeran: number, unit?: string) => string;
+  /** Group a plain ASCII digit string and map it to the locale's digits (for live input). */
+  group: (plain: string) => string;
+  /** An amount in words for screen readers, which otherwise read grouped digits one by one. */
+  say: (n: bigint | number) => string;
+};
+
+export const makeI18n = (locale: Locale, prefs: DisplayPrefs = {}): I18n => {
+  const def = LOCALES[locale];
+  const number: NumberFormat = { ...def.number, ...prefs.number };
+  const qeranDecimal = prefs.qeranDecimal ?? false;
+  const t: Translate = (key, params) => translate(locale, key, params);
+  const fmt = (n: bigint) => formatNumber(n, number);
+  const fmtSmall = (n: number) => mapDigits(String(n), number.digits);
+  return {
+    locale,
+    t,
+    dir: def.dir,
+    isRTL: def.dir === "rtl",
+    words: def.words,
+    dateLocale: def.dateLocale,
+    number,
+    qeranDecimal,
+    point: decimalPoint(number),
+    fmt,
+    fmtSmall,
+    fmtDecimal: (int, frac) => formatDecimal(int, frac, number),
+    fmtNew: (newRial, qeran, unit = t("new_rial")) =>
+      qeranDecimal
+        ? `${formatDecimal(newRial, String(qeran).padStart(2, "0"), number)} ${unit}`
+        : `${fmt(newRial)} ${unit} ${t("and")} ${fmtSmall(qeran)} ${t("qeran")}`,
+    group: (plain) => mapDigits(groupPlain(plain, number.separator, number.groupSize), number.digits),
+    say: (n) => bigIntToWords(BigInt(n), def.words),
+  };
+};
@@ -0,0 +1,91 @@
+/* ======================= Conversion history ======================= */
+import { onlyDigits, UNITS, type Unit } from "../engine";
+import { isRecord, readJson, writeJson } from "./kv";
+
+export type HistoryEntry = {
+  id: string;
+  direction: "oldToNew" | "newToOld";
+  unit: Unit; // the field the amount was typed into
+  oldRial: string; // BigInt as a decimal string (JSON has no BigInt)
+  newRial: string;
+  qeran: number;
+  subQeranRem: string; // old rials below one qeran, "0" when exact
+  label: string;
+  favorite: boolean;
+  createdAt: number; // ms since epoch
+};
+
+export const HISTORY_VERSION = 1;
+// favourites are never trimmed
+export const HISTORY_LIMIT = 200;
+
+const KEY = "history";
+
+// amounts go through BigInt() when shown or reloaded, so anything else would throw
+const isDigits = (v: unknown) => typeof v === "string" && /^[0-9]+$/.test(v);
+
+const isEntry = (e: unknown): e is HistoryEntry =>
+  isRecord(e) &&
+  typeof e.id === "string" &&
+  (e.direction === "oldToNew" || e.direction === "newToOld") &&
+  isDigits(e.oldRial) &&
+  isDigits(e.newRial) &&
+  typeof e.qeran === "number" &&
+  Number.isInteger(e.qeran) &&
+  e.qeran >= 0 &&
+  e.qeran < 100 &&
+  isDigits(e.subQeranRem) &&
+  UNITS.includes(e.unit as Unit) &&
+  typeof e.label === "string" &&
+  typeof e.favorite === "boolean" &&
+  typeof e.createdAt === "number";
+
+/** Load saved history (newest first). Unknown versions or bad entries are dropped. */
+export const loadHistory = async (): Promise<HistoryEntry[]> => {
+  const s = await readJson(KEY);
+  if (!isRecord(s) || s.version !== HISTORY_VERSION || !Array.isArray(s.entries)) return [];
+  return s.entries.filter(isEntry);
+};
+
+export const saveHistory = (entries: HistoryEntry[]) =>
+  writeJson(KEY, { version: HISTORY_VERSION, entries });
+
+/** Prepend an entry unless it repeats the newest one; trims old non-favourites. */
+export const addHistoryEntry = (
+  entries: HistoryEntry[],
+  e: Omit<HistoryEntry, "id" | "label" | "favorite" | "createdAt">,
+  now = Date.now()
+): HistoryEntry[] => {
+  const last = entries[0];
+  if (last && last.oldRial === e.oldRial && last.direction === e.direction) return entries;
+  const entry: HistoryEntry = {
+    ...e,
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    label: "",
+    favorite: false,
+    createdAt: now,
+  };
+  let plain = 0;
+  return [entry, ...entries].filter((x) => x.favorite || ++plain <= HISTORY_LIMIT);
+};
+
+export const updateHistoryEntry = (
+  entries: HistoryEntry[],
+  id: string,
+  patch: Partial<Pick<HistoryEntry, "label" | "favorite">>
+) => entries.map((e) => (e.id === id ? { ...e, ...patch } : e));
+
+export const removeHistoryEntry = (entries: HistoryEntry[], id: string) =>
+  entries.filter((e) => e.id !== id);
+
+/** Match by label (case-insensitive) or by digits of either amount, in any digit script. */
+export const searchHistory = (entries: HistoryEntry[], query: string, favoritesOnly = false) => {
+  const q = query.trim().toLowerCase();
+  const digits = onlyDigits(q);
+  return entries.filter((e) => {
+    if (favoritesOnly && !e.favorite) return false;
+    if (!q) return true;
+    if (e.label.toLowerCase().includes(q)) return true;
+    return !!digits && (e.oldRial.includes(digits) || e.newRial.includes(digits));
+  });
+};
@@ -0,0 +1,45 @@
+/* ======================= Saved invoices ======================= */
+import { ROUNDING_MODES, type Invoice, type InvoiceLine, type RoundingMode } from "../engine";
+import { isRecord, readJson, writeJson } from "./kv";
+
+export const INVOICES_VERSION = 1;
+
+const KEY = "invoices";
+
+const isLine = (l: unknown): l is InvoiceLine =>
+  isRecord(l) &&
+  typeof l.description === "string" &&
+  typeof l.quantity === "string" &&
+  typeof l.unitPrice === "string" &&
+  (l.priceUnit === "oldRial" || l.priceUnit === "newRial") &&
+  typeof l.discount === "string";
+
+const isInvoice = (v: unknown): v is Invoice =>
+  isRecord(v) &&
+  typeof v.id === "string" &&
+  typeof v.title === "string" &&
+  typeof v.vat === "string" &&
+  ROUNDING_MODES.includes(v.rounding as RoundingMode) &&
+  Array.isArray(v.lines) &&
+  v.lines.every(isLine) &&
+  typeof v.createdAt === "number" &&
+  typeof v.updatedAt === "number";
+
+/** Load saved invoices (last edited first). Unknown versions or bad entries are dropped. */
+export const loadInvoices = async (): Promise<Invoice[]> => {
+  const s = await readJson(KEY);
+  if (!isRecord(s) || s.version !== INVOICES_VERSION || !Array.isArray(s.invoices)) return [];
+  return s.invoices.filter(isInvoice);
+};
+
+export const saveInvoices = (invoices: Invoice[]) =>
+  writeJson(KEY, { version: INVOICES_VERSION, invoices });
+
+/** Replace the invoice with the same id (or add it) and move it to the front. */
+export const upsertInvoice = (invoices: Invoice[], invoice: Invoice, now = Date.now()) => [
+  { ...invoice, updatedAt: now },
+  ...invoices.filter((i) => i.id !== invoice.id),
+];
+
+export const removeInvoice = (invoices: Invoice[], id: string) =>
+  invoices.filter((i) => i.id !== id);
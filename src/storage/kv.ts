@@ -0,0 +1,28 @@
+/* ======================= On-device key/value storage ======================= */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// every key the app writes lives under this prefix
+const PREFIX = "rialconverter:";
+
+/** Read and JSON-parse a stored value. Missing, unreadable or corrupt → null. */
+export const readJson = async (key: string): Promise<unknown> => {
+  try {
+    const raw = await AsyncStorage.getItem(PREFIX + key);
+    return raw == null ? null : JSON.parse(raw);
+  } catch {
+    return null;
+  }
+};
+
+/** A parsed JSON object, so its fields can be read and checked one by one. */
+export const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** JSON-stringify and store a value. Failures are ignored: persistence is best-effort. */
+export const writeJson = async (key: string, value: unknown): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch {
+    // storage full or unavailable; the app keeps working in memory
+  }
+};
@@ -0,0 +1,25 @@
+/* ======================= Hand-entered exchange rates ======================= */
+import { isCurrencyRate, type CurrencyRate } from "../engine";
+import { isRecord, readJson, writeJson } from "./kv";
+
+export const RATES_VERSION = 1;
+
+const KEY = "rates";
+
+/** Load saved rates (one per currency). Unknown versions or bad entries are dropped. */
+export const loadRates = async (): Promise<CurrencyRate[]> => {
+  const s = await readJson(KEY);
+  if (!isRecord(s) || s.version !== RATES_VERSION || !Array.isArray(s.rates)) return [];
+  return s.rates.filter(isCurrencyRate);
+};
+
+export const saveRates = (rates: CurrencyRate[]) => writeJson(KEY, { version: RATES_VERSION, rates });
+
+/** Add or replace the rate for `rate.code`. */
+export const upsertRate = (rates: CurrencyRate[], rate: CurrencyRate) => [
+  ...rates.filter((r) => r.code !== rate.code),
+  rate,
+];
+
+export const removeRate = (rates: CurrencyRate[], code: CurrencyRate["code"]) =>
+  rates.filter((r) => r.code !== code);
@@ -0,0 +1,128 @@
+/* ======================= Saved settings & last session ======================= */
+import type { DigitScript, NumberFormat, RoundingMode, SummaryTemplate, Unit } from "../engine";
+import {
+  DEFAULT_DENOMINATIONS,
+  DIGIT_SCRIPTS,
+  GROUP_SEPARATORS,
+  GROUP_SIZES,
+  ROUNDING_MODES,
+  SUMMARY_TEMPLATES,
+  UNITS,
+} from "../engine";
+import { LOCALE_CODES, type Locale } from "../i18n";
+import { ACCENT_NAMES, THEME_SETTINGS, type AccentName, type ThemeSetting } from "../theme";
+import { isRecord, readJson, writeJson } from "./kv";
+
+export type SessionInputs = {
+  oldRial: string;
+  newRial: string;
+  qeran: string;
+  oldToman: string;
+  newToman: string;
+};
+
+export type Session = {
+  lang: Locale;
+  theme: ThemeSetting;
+  accent: AccentName;
+  unit: Unit;
+  qeranDecimal: boolean; // "55.40" for new rial + qeran, in fields and results
+  numberFormat: Partial<NumberFormat>; // what's left out follows the language
+  linked: boolean; // old rial and new rial/qeran side by side, kept in sync
+  rounding: RoundingMode;
+  shareTemplate: SummaryTemplate;
+  denominations: string[]; // notes & coins in qerans, as decimal strings (JSON has no bigint)
+  inputs: SessionInputs;
+};
+
+/** Bump when the stored shape changes, and add a step to `migrations`. */
+export const SESSION_VERSION = 1;
+
+export const DEFAULT_SESSION: Session = {
+  lang: "fa",
+  theme: "auto",
+  accent: "sky",
+  unit: "oldRial",
+  qeranDecimal: false,
+  numberFormat: {},
+  linked: false,
+  rounding: "truncate",
+  shareTemplate: "words",
+  denominations: DEFAULT_DENOMINATIONS.map(String),
+  inputs: { oldRial: "", newRial: "", qeran: "", oldToman: "", newToman: "" },
+};
+
+const KEY = "session";
+
+type Stored = { version: number; data: unknown };
+
+// migrations[n] upgrades data saved at version n to version n + 1
+const migrations: Record<number, (data: unknown) => unknown> = {};
+
+const pick = <T>(v: unknown, ok: (v: unknown) => boolean, fallback: T): T =>
+  ok(v) ? (v as T) : fallback;
+const isString = (v: unknown) => typeof v === "string";
+
+// keep every valid field, fall back to defaults for the rest
+const sanitize = (stored: unknown): Session => {
+  const d = DEFAULT_SESSION;
+  const data = isRecord(stored) ? stored : {};
+  const inp = isRecord(data.inputs) ? data.inputs : {};
+  const nf = isRecord(data.numberFormat) ? data.numberFormat : {};
+  return {
+    lang: pick(data.lang, (v) => LOCALE_CODES.includes(v as Locale), d.lang),
+    theme: pick(data.theme, (v) => THEME_SETTINGS.includes(v as ThemeSetting), d.theme),
+    accent: pick(data.accent, (v) => ACCENT_NAMES.includes(v as AccentName), d.accent),
+    unit: pick(data.unit, (v) => UNITS.includes(v as Unit), d.unit),
+    qeranDecimal: pick(data.qeranDecimal, (v) => typeof v === "boolean", d.qeranDecimal),
+    numberFormat: {
+      ...(DIGIT_SCRIPTS.includes(nf.digits as DigitScript) && { digits: nf.digits as DigitScript }),
+      ...(GROUP_SEPARATORS.includes(nf.separator as string) && { separator: nf.separator as string }),
+      ...(GROUP_SIZES.includes(nf.groupSize as number) && { groupSize: nf.groupSize as number }),
+    },
+    linked: pick(data.linked, (v) => typeof v === "boolean", d.linked),
+    rounding: pick(data.rounding, (v) => ROUNDING_MODES.includes(v as RoundingMode), d.rounding),
+    shareTemplate: pick(
+      data.shareTemplate,
+      (v) => SUMMARY_TEMPLATES.includes(v as SummaryTemplate),
+      d.shareTemplate
+    ),
+    denominations: pick(
+      data.denominations,
+      (v) => Array.isArray(v) && v.every((d) => typeof d === "string" && /^[1-9][0-9]*$/.test(d)),
+      d.denominations
+    ),
+    inputs: {
+      oldRial: pick(inp.oldRial, isString, d.inputs.oldRial),
+      newRial: pick(inp.newRial, isString, d.inputs.newRial),
+      qeran: pick(inp.qeran, isString, d.inputs.qeran),
+      oldToman: pick(inp.oldToman, isString, d.inputs.oldToman),
+      newToman: pick(inp.newToman, isString, d.inputs.newToman),
+    },
+  };
+};
+
+/**
+ * Bring any stored blob up to the current shape. Older versions are migrated
+ * step by step; data from a newer app version keeps its settings but drops its inputs.
+ */
+export const migrateSession = (stored: unknown): Session => {
+  const s = stored as Partial<Stored> | null;
+  if (!s || typeof s.version !== "number") return DEFAULT_SESSION;
+  let { version, data } = s as Stored;
+  if (version > SESSION_VERSION) return { ...sanitize(data), inputs: DEFAULT_SESSION.inputs };
+  while (version < SESSION_VERSION) {
+    const step = migrations[version];
+    if (!step) return DEFAULT_SESSION;
+    data = step(data);
+    version++;
+  }
+  return sanitize(data);
+};
+
+/** Load the saved session, or defaults on first run. */
+export const loadSession = async (): Promise<Session> => migrateSession(await readJson(KEY));
+
+/** Save the session under the current version. */
+export const saveSession = (session: Session) =>
+  writeJson(KEY, { version: SESSION_VERSION, data: session } satisfies Stored);
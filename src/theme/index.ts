@@ -0,0 +1,3 @@
+// Public API of the theme: design tokens, accents and the hook that resolves them
+export * from "./tokens";
+export * from "./useTheme";
@@ -0,0 +1,118 @@
+/* ======================= Theme: design tokens, schemes, accents ======================= */
+
+/** Colour tokens every screen and modal reads from; never hard-code hexes in components. */
+export type Palette = {
+  bg: string;
+  card: string;
+  text: string;
+  sub: string;
+  border: string;
+  field: string; // text inputs and other recessed surfaces
+  overlay: string; // dimmed backdrop behind bottom sheets
+  muted: string; // secondary buttons
+  onMuted: string;
+  ok: string; // New Rial
+  warn: string;
+  old: string; // Old Rial
+  qeran: string;
+  primary: string; // the user's accent colour
+  onPrimary: string; // text on top of `primary`
+  danger: string;
+};
+
+export type Scheme = "light" | "dark" | "contrast";
+
+/** What the user picks; "auto" follows the OS, "schedule" is dark from 18:00 to 06:00. */
+export type ThemeSetting = "auto" | "schedule" | "light" | "dark" | "contrast";
+export const THEME_SETTINGS: ThemeSetting[] = ["auto", "schedule", "light", "dark", "contrast"];
+
+export type AccentName = "sky" | "indigo" | "emerald" | "rose" | "violet" | "amber";
+export const ACCENT_NAMES: AccentName[] = ["sky", "indigo", "emerald", "rose", "violet", "amber"];
+
+// `normal` carries white text on light/dark; `bright` carries black text on the high-contrast scheme
+export const ACCENTS: Record<AccentName, { normal: string; bright: string }> = {
+  sky: { normal: "#0ea5e9", bright: "#7dd3fc" },
+  indigo: { normal: "#4f46e5", bright: "#a5b4fc" },
+  emerald: { normal: "#059669", bright: "#6ee7b7" },
+  rose: { normal: "#e11d48", bright: "#fda4af" },
+  violet: { normal: "#7c3aed", bright: "#c4b5fd" },
+  amber: { normal: "#d97706", bright: "#fcd34d" },
+};
+
+type SchemeTokens = Omit<Palette, "primary" | "onPrimary">;
+
+const SCHEMES: Record<Scheme, SchemeTokens> = {
+  light: {
+    bg: "#f6f7fb",
+    card: "#ffffff",
+    text: "#0f172a",
+    sub: "#475569",
+    border: "#d1d5db",
+    field: "#f1f5f9",
+    overlay: "rgba(0,0,0,0.35)",
+    muted: "#e2e8f0",
+    onMuted: "#0f172a",
+    ok: "#16a34a",
+    warn: "#1e3a8a",
+    old: "#f59e0b",
+    qeran: "#22c55e",
+    danger: "#dc2626",
+  },
+  dark: {
+    bg: "#0f172a",
+    card: "#172033",
+    text: "#ffffff",
+    sub: "#b5c0d0",
+    border: "#2a3550",
+    field: "#0b1220",
+    overlay: "rgba(0,0,0,0.35)",
+    muted: "#e2e8f0",
+    onMuted: "#0f172a",
+    ok: "#16a34a",
+    warn: "#1e3a8a",
+    old: "#f59e0b",
+    qeran: "#4ade80", // lighter green so it stays visible on the dark card
+    danger: "#f87171",
+  },
+  // pure black and white with bright, saturated accents (WCAG AAA body text)
+  contrast: {
+    bg: "#000000",
+    card: "#000000",
+    text: "#ffffff",
+    sub: "#e5e7eb",
+    border: "#ffffff",
+    field: "#000000",
+    overlay: "rgba(0,0,0,0.8)",
+    muted: "#ffffff",
+    onMuted: "#000000",
+    ok: "#4ade80",
+    warn: "#93c5fd",
+    old: "#fcd34d",
+    qeran: "#86efac",
+    danger: "#ff8080",
+  },
+};
+
+/** Dark between 18:00 and 06:00 local time. */
+export const isScheduledDark = (now: Date) => {
+  const hour = now.getHours();
+  return hour >= 18 || hour < 6;
+};
+
+/** Turn the user's setting into a concrete scheme given the OS appearance and the clock. */
+export const resolveScheme = (
+  setting: ThemeSetting,
+  system: "light" | "dark" | null | undefined,
+  now: Date
+): Scheme => {
+  if (setting === "auto") return system === "dark" ? "dark" : "light";
+  if (setting === "schedule") return isScheduledDark(now) ? "dark" : "light";
+  return setting;
+};
+
+export const makePalette = (scheme: Scheme, accent: AccentName): Palette => {
+  const a = ACCENTS[accent];
+  return scheme === "contrast"
+    ? { ...SCHEMES.contrast, primary: a.bright, onPrimary: "#000000" }
+    : { ...SCHEMES[scheme], primary: a.normal, onPrimary: "#ffffff" };
+};
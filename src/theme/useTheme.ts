@@ -0,0 +1,21 @@
+import { useEffect, useMemo, useState } from "react";
+import { useColorScheme } from "react-native";
+import { makePalette, resolveScheme, type AccentName, type ThemeSetting } from "./tokens";
+
+/** Resolved palette for the current setting; follows OS appearance changes and, on "schedule", the clock. */
+export const useTheme = (setting: ThemeSetting, accent: AccentName) => {
+  const system = useColorScheme();
+  const [now, setNow] = useState(() => new Date());
+
+  // re-check once a minute so 18:00 / 06:00 flips without a re-render from elsewhere
+  useEffect(() => {
+    if (setting !== "schedule") return;
+    setNow(new Date());
+    const id = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(id);
+  }, [setting]);
+
+  const scheme = resolveScheme(setting, system, now);
+  const C = useMemo(() => makePalette(scheme, accent), [scheme, accent]);
+  return { C, scheme, isDark: scheme !== "light" };
+};